@@ -1,8 +1,12 @@
 import { OAuthClientProvider } from "@modelcontextprotocol/sdk/client/auth.js";
-import { OAuthTokens } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { OAuthErrorResponse, OAuthErrorResponseSchema, OAuthMetadata, OAuthMetadataSchema, OAuthTokens, OAuthTokensSchema } from "@modelcontextprotocol/sdk/shared/auth.js";
 import * as fs from 'fs/promises';
 import { existsSync, mkdirSync } from 'fs';
 import * as path from 'path';
+import { createHash, createPrivateKey, generateKeyPairSync, JsonWebKey, KeyObject, randomUUID, sign } from 'crypto';
+import { createLogger } from '../../shared/logger.js';
+
+const logger = createLogger('client.auth');
 
 // Constants for storage keys/filenames
 // Store locally in the .auth directory, no browser storage available
@@ -11,28 +15,73 @@ const SESSION_KEYS = {
     SESSION_TOKEN: 'mcp_session_token',
     CODE_VERIFIER: 'mcp_code_verifier',
     CLIENT_INFO: 'mcp_client_info',
-    DEVICE_CODE: 'mcp_device_code'
+    DEVICE_CODE: 'mcp_device_code',
+    DPOP_KEY: 'mcp_dpop_key'
 };
 
-const ENDPOINTS = {
-    TOKEN: '/auth/token',
-    CALLBACK: '/auth/callback',
-    DEVICE_AUTHORIZE: '/auth/device/authorize',
-    DEVICE_TOKEN: '/auth/device/token'
-};
+// Registered as the redirect URI; the device flow never redirects back to the client
+const CALLBACK_PATH = '/auth/callback';
+
+const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+// DPoP proofs are signed with an ES256 key (RFC 9449 section 4.2)
+const DPOP_PROOF_HEADER = { typ: 'dpop+jwt', alg: 'ES256' };
 
 // Use constants to derive filenames
 const getFilePath = (storageDir: string, key: string): string => {
     return path.join(storageDir, `${key}.json`);
 };
 
+/**
+ * Tokens or an OAuth error from a token endpoint response. Anything else, such as a proxy's HTML error page,
+ * becomes an error naming the HTTP status.
+ */
+const parseTokenResponse = async (response: Response): Promise<OAuthTokens | OAuthErrorResponse> => {
+    const text = await response.text();
+    let body: unknown;
+    try {
+        body = (response.headers.get('content-type') ?? '').includes('json') ? JSON.parse(text) : undefined;
+    } catch {
+        body = undefined;
+    }
+
+    const parsed = response.ok ? OAuthTokensSchema.safeParse(body) : OAuthErrorResponseSchema.safeParse(body);
+    if (parsed.success) {
+        return parsed.data;
+    }
+    return {
+        error: response.ok ? 'invalid_response' : 'server_error',
+        error_description: `Unexpected token endpoint response (HTTP ${response.status}): ${text.slice(0, 200)}`
+    };
+};
+
+/**
+ * Authorization server metadata, including the device authorization endpoint (RFC 8628 section 4)
+ */
+export type AuthorizationServerMetadata = OAuthMetadata & { device_authorization_endpoint?: string };
+
 export class HeadlessClientOAuthProvider implements OAuthClientProvider {
     private serverUrl: string;
     private storageDir: string;
     private _deviceCode?: string;
+    private scope?: string;
+    private _metadata?: AuthorizationServerMetadata;
+    // Resource identifier of the MCP server, which tokens are requested for (RFC 8707)
+    private _resource?: string;
+    private useDPoP: boolean;
+    private _dpopKey?: { privateKey: KeyObject, publicJwk: JsonWebKey };
+    // Latest nonce the server sent in a DPoP-Nonce header, for the next proof
+    private _dpopNonce?: string;
     
-    constructor(serverUrl: string, storageDir?: string) {
+    /**
+     * @param serverUrl URL of the MCP endpoint; the authorization server is discovered from it
+     * @param scope Space-delimited MCP scopes to request, e.g. "tools:greet prompts:read" (the server's default when omitted)
+     * @param useDPoP Bind tokens to a key kept in the storage directory (DPoP, RFC 9449), so a copied token file is useless without it
+     */
+    constructor(serverUrl: string, storageDir?: string, scope?: string, useDPoP: boolean = false) {
         this.serverUrl = serverUrl;
+        this.scope = scope;
+        this.useDPoP = useDPoP;
         const currentDir = path.dirname(new URL(import.meta.url).pathname);
         this.storageDir = storageDir || path.join(currentDir, '.auth');
         
@@ -43,10 +92,48 @@ export class HeadlessClientOAuthProvider implements OAuthClientProvider {
     }
     
     get redirectUrl(): URL {
-        const callbackUrl = new URL(ENDPOINTS.CALLBACK, this.serverUrl);
+        const callbackUrl = new URL(CALLBACK_PATH, this.serverUrl);
         return callbackUrl;
     }
     
+    /**
+     * Discover the authorization server of the MCP server: its protected resource metadata (RFC 9728),
+     * named by the WWW-Authenticate challenge of an unauthenticated request, lists the authorization server,
+     * whose own metadata (RFC 8414) has the endpoints.
+     */
+    async authorizationServerMetadata(): Promise<AuthorizationServerMetadata> {
+        if (this._metadata) {
+            return this._metadata;
+        }
+
+        const resourceUrl = new URL(this.serverUrl);
+        const challenge = (await fetch(resourceUrl)).headers.get('www-authenticate') ?? '';
+        const resourceMetadataUrl = challenge.match(/resource_metadata="([^"]+)"/)?.[1]
+            ?? new URL(`/.well-known/oauth-protected-resource${resourceUrl.pathname === '/' ? '' : resourceUrl.pathname}`, resourceUrl).href;
+
+        const resourceResponse = await fetch(resourceMetadataUrl);
+        if (!resourceResponse.ok) {
+            throw new Error(`Failed to fetch protected resource metadata: ${resourceResponse.status} ${resourceResponse.statusText}`);
+        }
+        const resourceMetadata = await resourceResponse.json();
+        this._resource = resourceMetadata.resource;
+        const [issuer] = resourceMetadata.authorization_servers ?? [];
+        if (!issuer) {
+            throw new Error('Protected resource metadata lists no authorization server');
+        }
+
+        // The well-known path goes between the host and the issuer's path (RFC 8414 section 3.1)
+        const issuerUrl = new URL(issuer);
+        const issuerPath = issuerUrl.pathname === '/' ? '' : issuerUrl.pathname;
+        const metadataResponse = await fetch(new URL(`/.well-known/oauth-authorization-server${issuerPath}`, issuerUrl));
+        if (!metadataResponse.ok) {
+            throw new Error(`Failed to fetch authorization server metadata: ${metadataResponse.status} ${metadataResponse.statusText}`);
+        }
+
+        this._metadata = await OAuthMetadataSchema.parseAsync(await metadataResponse.json()) as AuthorizationServerMetadata;
+        return this._metadata;
+    }
+    
     async clientInformation() {
         try {
             const infoFile = getFilePath(this.storageDir, SESSION_KEYS.CLIENT_INFO);
@@ -156,8 +243,12 @@ export class HeadlessClientOAuthProvider implements OAuthClientProvider {
         }
         
         // Request device authorization
-        const authUrl = new URL(ENDPOINTS.DEVICE_AUTHORIZE, this.serverUrl);
-        console.log('Requesting device authorization from:', authUrl.toString());
+        const { device_authorization_endpoint } = await this.authorizationServerMetadata();
+        if (!device_authorization_endpoint) {
+            throw new Error("Authorization server does not support the device flow");
+        }
+        const authUrl = new URL(device_authorization_endpoint);
+        logger.info('Requesting device authorization', { url: authUrl.toString() });
         
         const response = await fetch(authUrl.toString(), {
             method: 'POST',
@@ -166,7 +257,10 @@ export class HeadlessClientOAuthProvider implements OAuthClientProvider {
                 'Accept': 'application/json'
             },
             body: JSON.stringify({
-                client_id: clientInfo.client_id
+                client_id: clientInfo.client_id,
+                client_secret: clientInfo.client_secret,
+                scope: this.scope,
+                resource: this._resource
             })
         });
         
@@ -215,7 +309,7 @@ export class HeadlessClientOAuthProvider implements OAuthClientProvider {
             }
         }
         
-        const tokenUrl = new URL(ENDPOINTS.DEVICE_TOKEN, this.serverUrl);
+        const tokenUrl = new URL((await this.authorizationServerMetadata()).token_endpoint);
         const startTime = Date.now();
         const maxTime = startTime + (timeout * 1000);
         
@@ -225,21 +319,15 @@ export class HeadlessClientOAuthProvider implements OAuthClientProvider {
             await new Promise(resolve => setTimeout(resolve, interval * 1000));
             
             try {
-                const response = await fetch(tokenUrl.toString(), {
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'Accept': 'application/json'
-                    },
-                    body: JSON.stringify({
-                        client_id: clientInfo.client_id,
-                        device_code: deviceCode
-                    })
-                });
-                
-                const data = await response.json();
+                const data = await this.postTokenRequest(tokenUrl, new URLSearchParams({
+                    grant_type: DEVICE_CODE_GRANT_TYPE,
+                    client_id: clientInfo.client_id,
+                    device_code: deviceCode,
+                    ...(clientInfo.client_secret ? { client_secret: clientInfo.client_secret } : {}),
+                    ...(this._resource ? { resource: this._resource } : {})
+                }));
                 
-                if (!response.ok) {
+                if ('error' in data) {
                     // Handle expected errors
                     if (data.error === 'authorization_pending') {
                         // Still waiting for user authorization
@@ -252,6 +340,9 @@ export class HeadlessClientOAuthProvider implements OAuthClientProvider {
                     } else if (data.error === 'expired_token') {
                         if (onError) onError('Authorization request expired');
                         throw new Error('Authorization request expired');
+                    } else if (data.error === 'access_denied') {
+                        if (onError) onError('Authorization request denied');
+                        throw new Error('Authorization request denied');
                     } else {
                         if (onError) onError(data.error_description || data.error);
                         throw new Error(data.error_description || data.error);
@@ -266,12 +357,12 @@ export class HeadlessClientOAuthProvider implements OAuthClientProvider {
                 
                 return data;
             } catch (error) {
-                if (error instanceof Error && error.message === 'Authorization request expired') {
+                if (error instanceof Error && (error.message === 'Authorization request expired' || error.message === 'Authorization request denied')) {
                     throw error;
                 }
                 
                 // Network or other errors - wait and retry
-                console.error("Error polling for authorization:", error);
+                logger.error("Error polling for authorization", { error });
                 if (onError) onError(`Network error: ${error}`);
             }
         }
@@ -279,11 +370,198 @@ export class HeadlessClientOAuthProvider implements OAuthClientProvider {
         throw new Error('Authorization timed out');
     }
 
+    /**
+     * Exchange the stored refresh token for a new token set.
+     * The server rotates refresh tokens, so the returned refresh token replaces the stored one.
+     * @returns The new tokens
+     */
+    async refreshTokens(): Promise<OAuthTokens> {
+        const clientInfo = await this.clientInformation();
+        if (!clientInfo?.client_id) {
+            throw new Error("No client information available");
+        }
+
+        const tokens = await this.tokens();
+        if (!tokens?.refresh_token) {
+            throw new Error("No refresh token available");
+        }
+
+        const params = new URLSearchParams({
+            grant_type: 'refresh_token',
+            client_id: clientInfo.client_id,
+            refresh_token: tokens.refresh_token
+        });
+        if (clientInfo.client_secret) {
+            params.set('client_secret', clientInfo.client_secret);
+        }
+
+        const tokenUrl = new URL((await this.authorizationServerMetadata()).token_endpoint);
+        const data = await this.postTokenRequest(tokenUrl, params);
+
+        if ('error' in data) {
+            throw new Error(`Token refresh failed: ${data.error_description || data.error}`);
+        }
+
+        await this.saveTokens(data);
+
+        return data;
+    }
+
+    /**
+     * Revoke the stored tokens on the server and delete them locally.
+     * The server revokes every token from the same authorization, so one request is enough.
+     */
+    async revokeTokens(): Promise<void> {
+        const clientInfo = await this.clientInformation();
+        const tokens = await this.tokens();
+
+        if (clientInfo?.client_id && tokens) {
+            const params = new URLSearchParams({
+                client_id: clientInfo.client_id,
+                token: tokens.refresh_token ?? tokens.access_token,
+                token_type_hint: tokens.refresh_token ? 'refresh_token' : 'access_token'
+            });
+            if (clientInfo.client_secret) {
+                params.set('client_secret', clientInfo.client_secret);
+            }
+
+            const { revocation_endpoint } = await this.authorizationServerMetadata();
+            if (!revocation_endpoint) {
+                throw new Error("Authorization server does not support token revocation");
+            }
+            const revokeUrl = new URL(revocation_endpoint);
+            const response = await fetch(revokeUrl.toString(), {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/x-www-form-urlencoded',
+                    'Accept': 'application/json'
+                },
+                body: params.toString()
+            });
+
+            if (!response.ok) {
+                throw new Error(`Token revocation failed: ${response.status} ${response.statusText}`);
+            }
+        }
+
+        try {
+            await fs.unlink(getFilePath(this.storageDir, SESSION_KEYS.SESSION_TOKEN));
+        } catch (error) {
+            // Ignore errors if file doesn't exist
+        }
+    }
+
+    /**
+     * POST a token request, with a DPoP proof when DPoP is used. A request refused for lack of
+     * the server's nonce (RFC 9449 section 8) is sent again once with the nonce it returned.
+     */
+    private async postTokenRequest(tokenUrl: URL, params: URLSearchParams): Promise<OAuthTokens | OAuthErrorResponse> {
+        for (let attempt = 0; ; attempt++) {
+            const headers: Record<string, string> = {
+                'Content-Type': 'application/x-www-form-urlencoded',
+                'Accept': 'application/json'
+            };
+            if (this.useDPoP) {
+                headers['DPoP'] = await this.dpopProof('POST', tokenUrl);
+            }
+
+            const response = await fetch(tokenUrl.toString(), {
+                method: 'POST',
+                headers,
+                body: params.toString()
+            });
+            this._dpopNonce = response.headers.get('dpop-nonce') ?? this._dpopNonce;
+
+            const result = await parseTokenResponse(response);
+            if ('error' in result && result.error === 'use_dpop_nonce' && attempt === 0) {
+                continue;
+            }
+            return result;
+        }
+    }
+
+    /**
+     * The DPoP key, loaded from the storage directory or generated on first use
+     */
+    private async dpopKey(): Promise<{ privateKey: KeyObject, publicJwk: JsonWebKey }> {
+        if (this._dpopKey) {
+            return this._dpopKey;
+        }
+
+        const keyFile = getFilePath(this.storageDir, SESSION_KEYS.DPOP_KEY);
+        let privateKey: KeyObject;
+        try {
+            privateKey = createPrivateKey({ key: JSON.parse(await fs.readFile(keyFile, 'utf8')), format: 'jwk' });
+        } catch (error) {
+            privateKey = generateKeyPairSync('ec', { namedCurve: 'P-256' }).privateKey;
+            // Whoever can read the key can use the tokens, so only the owner may read it
+            await fs.writeFile(keyFile, JSON.stringify(privateKey.export({ format: 'jwk' })), { encoding: 'utf8', mode: 0o600 });
+        }
+
+        const { kty, crv, x, y } = privateKey.export({ format: 'jwk' });
+        this._dpopKey = { privateKey, publicJwk: { kty, crv, x, y } };
+        return this._dpopKey;
+    }
+
+    /**
+     * A DPoP proof (RFC 9449 section 4) for one request, bound to the access token when one is sent with it
+     */
+    async dpopProof(method: string, url: URL, accessToken?: string): Promise<string> {
+        const { privateKey, publicJwk } = await this.dpopKey();
+        const htu = new URL(url);
+        htu.search = '';
+        htu.hash = '';
+
+        const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+        const signingInput = `${encode({ ...DPOP_PROOF_HEADER, jwk: publicJwk })}.${encode({
+            jti: randomUUID(),
+            htm: method,
+            htu: htu.href,
+            iat: Math.floor(Date.now() / 1000),
+            nonce: this._dpopNonce,
+            ath: accessToken ? createHash('sha256').update(accessToken).digest('base64url') : undefined
+        })}`;
+        const signature = sign('sha256', Buffer.from(signingInput), { key: privateKey, dsaEncoding: 'ieee-p1363' });
+        return `${signingInput}.${signature.toString('base64url')}`;
+    }
+
+    /**
+     * Wrap fetch so that requests to the MCP endpoint sending a DPoP-bound token use the DPoP scheme with a fresh proof.
+     * A request refused for lack of the server's nonce is sent again once with the nonce it returned.
+     */
+    dpopFetch(baseFetch: typeof fetch): typeof fetch {
+        return async (input, init) => {
+            const url = new URL(input instanceof Request ? input.url : input.toString());
+            const headers = new Headers(init?.headers);
+            const [type, token] = (headers.get('authorization') ?? '').split(' ');
+            const tokens = await this.tokens();
+            const isBoundToken = type?.toLowerCase() === 'bearer' && token === tokens?.access_token
+                && tokens?.token_type?.toLowerCase() === 'dpop';
+            if (!isBoundToken || url.origin + url.pathname !== new URL(this.serverUrl).href) {
+                return baseFetch(input, init);
+            }
+
+            for (let attempt = 0; ; attempt++) {
+                const method = init?.method ?? 'GET';
+                headers.set('Authorization', `DPoP ${token}`);
+                headers.set('DPoP', await this.dpopProof(method, url, token));
+
+                const response = await baseFetch(input, { ...init, headers });
+                this._dpopNonce = response.headers.get('dpop-nonce') ?? this._dpopNonce;
+                if (response.status === 401 && attempt === 0
+                    && (response.headers.get('www-authenticate') ?? '').includes('error="use_dpop_nonce"')) {
+                    continue;
+                }
+                return response;
+            }
+        };
+    }
+
     get clientMetadata() {
         return {
             client_name: 'Mash Headless Client',
             redirect_uris: [this.redirectUrl.toString()],
-            grant_types: ['authorization_code', 'device_code']
+            grant_types: ['authorization_code', 'device_code', 'refresh_token']
         };
     }
 } 
\ No newline at end of file
@@ -16,6 +16,10 @@ import {
   ResourceListChangedNotificationSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { HeadlessClientOAuthProvider } from './auth/HeadlessClientOAuthProvider.js';
+import { createLogger } from '../shared/logger.js';
+
+// Diagnostics; what the user asked for is printed to stdout as before
+const logger = createLogger('client');
 
 // Create readline interface for user input
 const readline = createInterface({
@@ -32,6 +36,8 @@ let transport: StreamableHTTPClientTransport | null = null;
 let serverUrl = 'http://localhost:3000/mcp';
 let sessionId: string | undefined = undefined;
 let authProvider: HeadlessClientOAuthProvider | null = null;
+// fetch as it was before DPoP proofs were added to MCP requests
+const baseFetch = globalThis.fetch;
 async function main(): Promise<void> {
   console.log('MCP Interactive Client');
   console.log('=====================');
@@ -50,6 +56,7 @@ function printHelp(): void {
   console.log('  disconnect                 - Disconnect from server');
   console.log('  terminate-session          - Terminate the current session');
   console.log('  reconnect                  - Reconnect to the server');
+  console.log('  logout                     - Revoke stored tokens and disconnect');
   console.log('  list-tools                 - List available tools');
   console.log('  call-tool <name> [args]    - Call a tool with optional JSON arguments');
   console.log('  greet [name]               - Call the greet tool');
@@ -85,6 +92,10 @@ function commandLoop(): void {
           await reconnect();
           break;
 
+        case 'logout':
+          await logout();
+          break;
+
         case 'list-tools':
           await listTools();
           break;
@@ -162,7 +173,7 @@ function commandLoop(): void {
           break;
       }
     } catch (error) {
-      console.error(`Error executing command: ${error}`);
+      logger.error('Error executing command', { error });
     }
 
     // Continue the command loop
@@ -185,57 +196,84 @@ async function connect(url?: string): Promise<void> {
   try {
     // Create a new oauth provider
     if(!authProvider) {
-      const baseUrl = new URL(serverUrl).origin;
-      authProvider = new HeadlessClientOAuthProvider(baseUrl);
+      // MCP_SCOPE narrows what the session token may be used for, e.g. MCP_SCOPE="tools:greet"
+      // MCP_DPOP=true binds the tokens to a key of this client (DPoP)
+      authProvider = new HeadlessClientOAuthProvider(serverUrl, undefined, process.env.MCP_SCOPE, process.env.MCP_DPOP === 'true');
+      // The SDK transport uses the global fetch, so that is where DPoP proofs are added to MCP requests
+      globalThis.fetch = authProvider.dpopFetch(baseFetch);
     }
 
     // check for existing tokens
     let tokens = await authProvider.tokens();
     if (!tokens) {
-      console.log("No tokens found, initiating device flow");
-
-      // save client information 
-      if(!(await authProvider.clientInformation())) {
-        console.log("Registering client");
-        const registrationResponse = await fetch(`${new URL(serverUrl).origin}/auth/register`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          body: JSON.stringify(authProvider.clientMetadata)
-        });
-
-        if (!registrationResponse.ok) {
-          throw new Error(`Client registration failed: ${registrationResponse.status} ${registrationResponse.statusText}`);
-        }
+      logger.info('No tokens found, initiating device flow');
+    }
 
-        const clientInfo = await registrationResponse.json();
-        // Then save the registration response locally
-        await authProvider.saveClientInformation(clientInfo);
+    // register the client, or register again once the server-issued client secret has expired
+    const existingClientInfo = await authProvider.clientInformation();
+    const secretExpired = !!existingClientInfo?.client_secret_expires_at
+      && existingClientInfo.client_secret_expires_at < Math.floor(Date.now() / 1000);
+    if (!existingClientInfo || secretExpired) {
+      logger.info('Registering client');
+      const { registration_endpoint } = await authProvider.authorizationServerMetadata();
+      if (!registration_endpoint) {
+        throw new Error('Authorization server does not support dynamic client registration');
+      }
+      const registrationResponse = await fetch(registration_endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json'
+        },
+        body: JSON.stringify(authProvider.clientMetadata)
+      });
+
+      if (!registrationResponse.ok) {
+        throw new Error(`Client registration failed: ${registrationResponse.status} ${registrationResponse.statusText}`);
       }
-    }
 
-    // start device flow
-    const deviceAuth = await authProvider.authorizeHeadless();
+      const clientInfo = await registrationResponse.json();
+      // Then save the registration response locally
+      await authProvider.saveClientInformation(clientInfo);
+      // tokens issued to the previous registration cannot be refreshed by the new one
+      tokens = undefined;
+    }
 
-    console.log('\n === DEVICE AUTHORIZATION ===');
-    console.log(`Please visit the following URL to authorize the device: ${deviceAuth.verification_uri}`);
-    console.log(`Enter the code: ${deviceAuth.user_code}`)
+    // try to refresh existing tokens before falling back to device flow
+    if (tokens?.refresh_token) {
+      try {
+        tokens = await authProvider.refreshTokens();
+        logger.info('Refreshed existing tokens');
+      } catch (error) {
+        logger.warn('Token refresh failed, initiating device flow', { error });
+        tokens = undefined;
+      }
+    } else {
+      tokens = undefined;
+    }
 
-    console.log('Waiting for authorization...');
-    tokens = await authProvider.pollForAuthorization({
-      deviceCode: deviceAuth.device_code,
-      interval: deviceAuth.interval,
-      onPending: () => process.stdout.write('.'),
-      onError: (error) => { console.error('Error during authorization:', error);}
-    });
+    if (!tokens) {
+      // start device flow
+      const deviceAuth = await authProvider.authorizeHeadless();
+
+      console.log('\n === DEVICE AUTHORIZATION ===');
+      console.log(`Please visit the following URL to authorize the device: ${deviceAuth.verification_uri}`);
+      console.log(`Enter the code: ${deviceAuth.user_code}`)
+
+      console.log('Waiting for authorization...');
+      tokens = await authProvider.pollForAuthorization({
+        deviceCode: deviceAuth.device_code,
+        interval: deviceAuth.interval,
+        onPending: () => process.stdout.write('.'),
+        onError: (error) => { logger.error('Error during authorization', { error }); }
+      });
+
+      if(!tokens) {
+        throw new Error("Failed to authorize device");
+      }
 
-    if(!tokens) {
-      throw new Error("Failed to authorize device");
+      console.log('\n === DEVICE AUTHORIZED ===');
     }
-
-    console.log('\n === DEVICE AUTHORIZED ===');
     
 
     // Create a new client
@@ -244,7 +282,7 @@ async function connect(url?: string): Promise<void> {
       version: '1.0.0'
     });
     client.onerror = (error) => {
-      console.error('\x1b[31mClient error:', error, '\x1b[0m');
+      logger.error('Client error', { error });
     }
 
     transport = new StreamableHTTPClientTransport(
@@ -289,10 +327,10 @@ async function connect(url?: string): Promise<void> {
     // Connect the client
     await client.connect(transport);
     sessionId = transport.sessionId
-    console.log('Transport created with session ID:', sessionId);
+    logger.info('Transport created', { session_id: sessionId });
     console.log('Connected to MCP server');
   } catch (error) {
-    console.error('Failed to connect:', error);
+    logger.error('Failed to connect', { error });
     client = null;
     transport = null;
   }
@@ -310,7 +348,25 @@ async function disconnect(): Promise<void> {
     client = null;
     transport = null;
   } catch (error) {
-    console.error('Error disconnecting:', error);
+    logger.error('Error disconnecting', { error });
+  }
+}
+
+async function logout(): Promise<void> {
+  if (client && transport) {
+    await disconnect();
+  }
+
+  if (!authProvider) {
+    console.log('Not logged in.');
+    return;
+  }
+
+  try {
+    await authProvider.revokeTokens();
+    console.log('Tokens revoked');
+  } catch (error) {
+    logger.error('Error revoking tokens', { error });
   }
 }
 
@@ -340,7 +396,7 @@ async function terminateSession(): Promise<void> {
       console.log('Session ID is still active:', transport.sessionId);
     }
   } catch (error) {
-    console.error('Error terminating session:', error);
+    logger.error('Error terminating session', { error });
   }
 }
 
@@ -508,14 +564,14 @@ async function cleanup(): Promise<void> {
           await transport.terminateSession();
           console.log('Session terminated successfully');
         } catch (error) {
-          console.error('Error terminating session:', error);
+          logger.error('Error terminating session', { error });
         }
       }
       
       // Then close the transport
       await transport.close();
     } catch (error) {
-      console.error('Error closing transport:', error);
+      logger.error('Error closing transport', { error });
     }
   }
 
@@ -556,6 +612,6 @@ process.on('SIGINT', async () => {
 
 // Start the interactive client
 main().catch((error: unknown) => {
-  console.error('Error running MCP client:', error);
+  logger.error('Error running MCP client', { error });
   process.exit(1);
 });
\ No newline at end of file
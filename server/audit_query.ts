@@ -0,0 +1,83 @@
+import 'dotenv/config';
+import { parseArgs } from 'node:util';
+import { auditLog, AuditOutcome, AuditQuery } from './auth/AuditLog.js';
+import { ConfigError, loadServerConfig } from './config.js';
+
+const USAGE = `Usage: npx tsx server/audit_query.ts [options]
+
+Prints the matching audit records as JSON lines, oldest first.
+
+Options:
+  --event <name>      Event name, or a prefix such as 'token.*'
+  --actor <user>      GitHub login or user ID
+  --client <id>       Client ID
+  --outcome <result>  success or failure
+  --since <time>      Records at or after this date or ISO 8601 time
+  --until <time>      Records at or before this date or ISO 8601 time
+  --limit <n>         Only the n most recent records
+  --help              Show this help`;
+
+const parseDate = (name: string, value: string | undefined): Date | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`--${name} must be a date or ISO 8601 time, got "${value}"`);
+  }
+  return date;
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      event: { type: 'string' },
+      actor: { type: 'string' },
+      client: { type: 'string' },
+      outcome: { type: 'string' },
+      since: { type: 'string' },
+      until: { type: 'string' },
+      limit: { type: 'string' },
+      help: { type: 'boolean' },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (values.outcome !== undefined && values.outcome !== 'success' && values.outcome !== 'failure') {
+    throw new Error(`--outcome must be success or failure, got "${values.outcome}"`);
+  }
+  const limit = values.limit !== undefined ? Number(values.limit) : undefined;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    throw new Error(`--limit must be a positive integer, got "${values.limit}"`);
+  }
+
+  // The server may have been configured to write the log elsewhere
+  const { storage } = loadServerConfig();
+  if (storage.auditLogPath) {
+    auditLog.useFile(storage.auditLogPath);
+  }
+
+  const query: AuditQuery = {
+    event: values.event,
+    actor: values.actor,
+    clientId: values.client,
+    outcome: values.outcome as AuditOutcome | undefined,
+    since: parseDate('since', values.since),
+    until: parseDate('until', values.until),
+    limit,
+  };
+  for (const record of await auditLog.query(query)) {
+    console.log(JSON.stringify(record));
+  }
+};
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  if (!(error instanceof ConfigError)) {
+    console.error(USAGE);
+  }
+  process.exit(1);
+});
@@ -0,0 +1,183 @@
+import { createReadStream, createWriteStream, existsSync, mkdirSync, WriteStream } from 'fs';
+import { createInterface } from 'readline';
+import path from 'path';
+import { UpstreamUserInfo } from './UpstreamIdentityProvider.js';
+import { createLogger } from '../../shared/logger.js';
+
+const logger = createLogger('auth.audit');
+
+const currentDir = path.dirname(new URL(import.meta.url).pathname);
+const DEFAULT_AUDIT_LOG_FILE = path.join(currentDir, '.auth/audit.jsonl');
+
+/**
+ * Events recorded in the audit log
+ */
+export type AuditEvent =
+  | 'client.registered'
+  | 'client.updated'
+  | 'client.deleted'
+  // A user was sent to sign in upstream (browser flow), or a device code was handed out (device flow)
+  | 'authorization.started'
+  | 'device.started'
+  // The user signed in upstream and was allowed, or was denied (or declined)
+  | 'authorization.approved'
+  | 'authorization.denied'
+  | 'device.approved'
+  | 'device.denied'
+  | 'token.issued'
+  | 'token.refreshed'
+  // A rotated refresh token was presented again, and its token family was revoked
+  | 'token.reused'
+  | 'token.revoked'
+  // The access policy no longer allows the user, and their token family was revoked
+  | 'access.revoked'
+  // An expired upstream access token was refreshed; on failure the upstream provider refused, and the token family was revoked
+  | 'upstream.refreshed'
+  | 'mcp.session_opened'
+  | 'mcp.session_closed'
+  // Scope check of a tool, prompt or resource request
+  | 'mcp.access';
+
+export type AuditOutcome = 'success' | 'failure';
+
+/**
+ * One line of the audit log
+ */
+export interface AuditRecord {
+  // ISO 8601 timestamp
+  time: string;
+  event: AuditEvent;
+  outcome: AuditOutcome;
+  // Upstream user who acted; absent before a user has signed in
+  actor?: { id: string; username: string };
+  client_id?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditEntry {
+  event: AuditEvent;
+  outcome: AuditOutcome;
+  actor?: UpstreamUserInfo;
+  clientId?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface AuditQuery {
+  // Event name, or a prefix ending in "*" such as "token.*"
+  event?: string;
+  // Upstream login or user ID
+  actor?: string;
+  clientId?: string;
+  outcome?: AuditOutcome;
+  since?: Date;
+  until?: Date;
+  // Return only the most recent matching records
+  limit?: number;
+}
+
+/**
+ * Append-only audit trail of authentication and MCP session events, one JSON record per line (JSONL).
+ * Records are only ever appended; the file is readable by the server's user only.
+ */
+export class AuditLog {
+  private _file: string;
+  private _stream?: WriteStream;
+
+  constructor(file: string) {
+    this._file = file;
+  }
+
+  /**
+   * Appends further records to another file, such as the one named in the server configuration
+   */
+  useFile(file: string): void {
+    if (file !== this._file) {
+      this._stream?.end();
+      this._stream = undefined;
+      this._file = file;
+    }
+  }
+
+  record(entry: AuditEntry): void {
+    const record: AuditRecord = {
+      time: new Date().toISOString(),
+      event: entry.event,
+      outcome: entry.outcome,
+      // Only the identifiers; profile details such as email stay out of the log
+      actor: entry.actor ? { id: entry.actor.id, username: entry.actor.username } : undefined,
+      client_id: entry.clientId,
+      details: entry.details,
+    };
+
+    if (!this._stream) {
+      mkdirSync(path.dirname(this._file), { recursive: true });
+      this._stream = createWriteStream(this._file, { flags: 'a', mode: 0o600 });
+      this._stream.on('error', err => {
+        logger.error("Failed to write audit log", { error: err });
+      });
+    }
+    this._stream.write(`${JSON.stringify(record)}\n`);
+  }
+
+  /**
+   * Records matching every given filter, oldest first
+   */
+  async query(filter: AuditQuery = {}): Promise<AuditRecord[]> {
+    if (!existsSync(this._file)) {
+      return [];
+    }
+
+    const matches: AuditRecord[] = [];
+    const lines = createInterface({ input: createReadStream(this._file, 'utf8'), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) {
+        continue;
+      }
+      let record: AuditRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A line cut short by a crash
+        continue;
+      }
+      if (matchesQuery(record, filter)) {
+        matches.push(record);
+        if (filter.limit && matches.length > filter.limit) {
+          matches.shift();
+        }
+      }
+    }
+    return matches;
+  }
+}
+
+function matchesQuery(record: AuditRecord, filter: AuditQuery): boolean {
+  if (filter.event) {
+    const matchesEvent = filter.event.endsWith('*')
+      ? record.event.startsWith(filter.event.slice(0, -1))
+      : record.event === filter.event;
+    if (!matchesEvent) {
+      return false;
+    }
+  }
+  if (filter.actor && record.actor?.username.toLowerCase() !== filter.actor.toLowerCase() && record.actor?.id !== filter.actor) {
+    return false;
+  }
+  if (filter.clientId && record.client_id !== filter.clientId) {
+    return false;
+  }
+  if (filter.outcome && record.outcome !== filter.outcome) {
+    return false;
+  }
+  const time = Date.parse(record.time);
+  if (filter.since && time < filter.since.getTime()) {
+    return false;
+  }
+  if (filter.until && time > filter.until.getTime()) {
+    return false;
+  }
+  return true;
+}
+
+// Singleton audit log at AUDIT_LOG_PATH (default server/auth/.auth/audit.jsonl)
+export const auditLog = new AuditLog(process.env.AUDIT_LOG_PATH || DEFAULT_AUDIT_LOG_FILE);
@@ -0,0 +1,93 @@
+import { RequestHandler } from "express";
+import { OAuthClientInformationFull } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { InvalidClientError, InvalidRequestError, OAuthError, ServerError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+// Declares req.client, which the SDK handlers read after authentication
+import "@modelcontextprotocol/sdk/server/auth/middleware/clientAuth.js";
+import { createLogger } from "../../shared/logger.js";
+
+const logger = createLogger("auth.clients");
+
+export interface ClientAuthenticator {
+    authenticateClient(clientId: string, clientSecret?: string, requireSecret?: boolean): Promise<OAuthClientInformationFull>;
+}
+
+export interface AuthenticateClientOptions {
+    // Only accept confidential clients whose stored secret was verified for the request
+    requireSecret?: boolean;
+}
+
+/**
+ * Credentials from an HTTP Basic Authorization header (client_secret_basic, RFC 6749 section 2.3.1)
+ */
+function parseBasicCredentials(authorization: string | undefined): { clientId: string, clientSecret: string } | undefined {
+    const [type, credentials] = (authorization ?? '').split(' ');
+    if (type?.toLowerCase() !== 'basic' || !credentials) {
+        return undefined;
+    }
+
+    const decoded = Buffer.from(credentials, 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator < 0) {
+        throw new InvalidClientError("Malformed Basic credentials");
+    }
+
+    // Client ID and secret are form-encoded before they are joined
+    const formDecode = (value: string) => {
+        try {
+            return decodeURIComponent(value.replace(/\+/g, ' '));
+        } catch {
+            // Invalid percent-encoding, such as %zz
+            throw new InvalidClientError("Malformed Basic credentials");
+        }
+    };
+    return {
+        clientId: formDecode(decoded.slice(0, separator)),
+        clientSecret: formDecode(decoded.slice(separator + 1))
+    };
+}
+
+/**
+ * Authenticates the client of a token, device or revocation request with client_secret_basic or
+ * client_secret_post, or by client ID alone for public clients. The request body must already be parsed.
+ *
+ * The authenticated client is set on req.client, and its client_id is copied into the body,
+ * so the SDK handlers that run afterwards see an already authenticated request.
+ */
+export function authenticateClient(authenticator: ClientAuthenticator, { requireSecret = false }: AuthenticateClientOptions = {}): RequestHandler {
+    return async (req, res, next) => {
+        try {
+            const basic = parseBasicCredentials(req.headers.authorization);
+            const body = req.body ?? {};
+            if (basic && body.client_secret) {
+                throw new InvalidRequestError("Only one client authentication method may be used");
+            }
+            if (basic && body.client_id && body.client_id !== basic.clientId) {
+                throw new InvalidRequestError("client_id does not match the Authorization header");
+            }
+
+            const clientId = basic?.clientId ?? body.client_id;
+            if (typeof clientId !== 'string' || !clientId) {
+                throw new InvalidRequestError("Missing client_id parameter");
+            }
+            const clientSecret = basic?.clientSecret ?? body.client_secret;
+
+            req.client = await authenticator.authenticateClient(clientId, typeof clientSecret === 'string' ? clientSecret : undefined, requireSecret);
+
+            const { client_secret: _, ...rest } = body;
+            req.body = { ...rest, client_id: clientId };
+            next();
+        } catch (error) {
+            if (error instanceof InvalidClientError) {
+                if (req.headers.authorization) {
+                    res.setHeader('WWW-Authenticate', 'Basic realm="auth"');
+                }
+                res.status(401).json(error.toResponseObject());
+            } else if (error instanceof OAuthError && !(error instanceof ServerError)) {
+                res.status(400).json(error.toResponseObject());
+            } else {
+                logger.error("Unexpected error authenticating client", { error });
+                res.status(500).json(new ServerError("Internal Server Error").toResponseObject());
+            }
+        }
+    };
+}
@@ -0,0 +1,217 @@
+import { createHash, createPublicKey, JsonWebKey, randomBytes, verify } from 'crypto';
+import { Request } from 'express';
+import { OAuthError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { isJwt } from './JwtAccessTokens.js';
+
+// Media type of DPoP proofs (RFC 9449 section 4.2)
+const DPOP_PROOF_TYPE = 'dpop+jwt';
+const DEFAULT_PROOF_LIFETIME_SECONDS = 5 * 60;
+const DEFAULT_NONCE_LIFETIME_SECONDS = 5 * 60;
+// Allowed difference between the client's clock and ours
+const CLOCK_SKEW_SECONDS = 30;
+
+/**
+ * Signature algorithms accepted in DPoP proofs, with the key type each one needs
+ */
+const ALGORITHMS: Record<string, { kty: string, crv?: string, hash: string | null, dsaEncoding?: 'ieee-p1363' }> = {
+    ES256: { kty: 'EC', crv: 'P-256', hash: 'sha256', dsaEncoding: 'ieee-p1363' },
+    RS256: { kty: 'RSA', hash: 'sha256' },
+    EdDSA: { kty: 'OKP', crv: 'Ed25519', hash: null },
+};
+
+export const DPOP_SIGNING_ALGORITHMS = Object.keys(ALGORITHMS);
+
+/**
+ * The DPoP proof is missing, malformed or does not match the request (RFC 9449 section 12.2)
+ */
+export class InvalidDPoPProofError extends OAuthError {
+    constructor(message: string, errorUri?: string) {
+        super("invalid_dpop_proof", message, errorUri);
+    }
+}
+
+/**
+ * The DPoP proof must carry the nonce sent in the DPoP-Nonce header (RFC 9449 section 8)
+ */
+export class UseDPoPNonceError extends OAuthError {
+    constructor(message: string, errorUri?: string) {
+        super("use_dpop_nonce", message, errorUri);
+    }
+}
+
+interface DPoPProofHeader {
+    typ?: string;
+    alg?: string;
+    jwk?: JsonWebKey;
+}
+
+interface DPoPProofClaims {
+    jti?: string;
+    htm?: string;
+    htu?: string;
+    iat?: number;
+    nonce?: string;
+    ath?: string;
+}
+
+export interface DPoPProofVerifierOptions {
+    // How long after it was created a proof is accepted
+    proofLifetimeSeconds?: number;
+    // How often the nonce changes; the previous nonce is still accepted until the next change
+    nonceLifetimeSeconds?: number;
+}
+
+export interface DPoPRequest {
+    // HTTP method and URL the proof must be for
+    method: string;
+    url: string;
+    // Access token sent with the proof, which it must hash (ath); omitted at the token endpoint
+    accessToken?: string;
+}
+
+/**
+ * JWK thumbprint (RFC 7638) identifying a public key, the value tokens are bound to (cnf.jkt)
+ */
+export function jwkThumbprint(jwk: JsonWebKey): string {
+    // Only the required members, in lexicographic order
+    const members = jwk.kty === 'RSA' ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+        : jwk.kty === 'EC' ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+        : { crv: jwk.crv, kty: jwk.kty, x: jwk.x };
+    return createHash('sha256').update(JSON.stringify(members)).digest('base64url');
+}
+
+/**
+ * URL of an Express request as the client addressed it, which a DPoP proof's htu must match
+ */
+export function dpopRequestUrl(req: Request): string {
+    return new URL(req.originalUrl, `${req.protocol}://${req.get('host')}`).href;
+}
+
+/**
+ * Verifies DPoP proofs (RFC 9449 section 4.3) at the token endpoint and at protected resources.
+ *
+ * Proofs must carry a nonce issued by this server, so a proof cannot be created ahead of time, and
+ * every proof is accepted once only. Nonces and seen proofs are kept in memory, so a restart invalidates
+ * outstanding nonces and clients fetch a new one.
+ */
+export class DPoPProofVerifier {
+    private _proofLifetimeMs: number;
+    private _nonceLifetimeMs: number;
+    private _nonce: { value: string, createdAt: number };
+    private _previousNonce?: string;
+    // jti of each accepted proof, until the proof would have expired anyway
+    private _seenProofs: Map<string, number> = new Map();
+
+    constructor(options: DPoPProofVerifierOptions = {}) {
+        this._proofLifetimeMs = (options.proofLifetimeSeconds ?? DEFAULT_PROOF_LIFETIME_SECONDS) * 1000;
+        this._nonceLifetimeMs = (options.nonceLifetimeSeconds ?? DEFAULT_NONCE_LIFETIME_SECONDS) * 1000;
+        this._nonce = { value: randomBytes(16).toString('base64url'), createdAt: Date.now() };
+    }
+
+    /**
+     * Nonce for the next proof, sent to clients in the DPoP-Nonce header
+     */
+    get nonce(): string {
+        if (this._nonce.createdAt + this._nonceLifetimeMs < Date.now()) {
+            this._previousNonce = this._nonce.value;
+            this._nonce = { value: randomBytes(16).toString('base64url'), createdAt: Date.now() };
+        }
+        return this._nonce.value;
+    }
+
+    /**
+     * Check a DPoP proof against the request it came with and return the thumbprint of its key
+     */
+    verify(proof: string | string[] | undefined, request: DPoPRequest): string {
+        // Several DPoP headers arrive joined by commas, which a JWT cannot contain
+        if (typeof proof !== 'string' || !isJwt(proof)) {
+            throw new InvalidDPoPProofError("Request must carry one DPoP proof");
+        }
+
+        const [encodedHeader, encodedPayload, encodedSignature] = proof.split('.');
+        let header: DPoPProofHeader;
+        let claims: DPoPProofClaims;
+        try {
+            header = decodeSegment(encodedHeader);
+            claims = decodeSegment(encodedPayload);
+        } catch {
+            throw new InvalidDPoPProofError("Malformed DPoP proof");
+        }
+
+        if (header.typ?.toLowerCase() !== DPOP_PROOF_TYPE) {
+            throw new InvalidDPoPProofError("DPoP proof must be of type dpop+jwt");
+        }
+        const algorithm = header.alg && Object.hasOwn(ALGORITHMS, header.alg) ? ALGORITHMS[header.alg] : undefined;
+        if (!algorithm) {
+            throw new InvalidDPoPProofError(`DPoP proof must be signed with one of ${DPOP_SIGNING_ALGORITHMS.join(', ')}`);
+        }
+        const jwk = header.jwk;
+        if (!jwk || jwk.kty !== algorithm.kty || (algorithm.crv && jwk.crv !== algorithm.crv) || jwk.d !== undefined) {
+            throw new InvalidDPoPProofError(`DPoP proof must carry the public ${header.alg} key it was signed with`);
+        }
+
+        let signatureValid: boolean;
+        try {
+            signatureValid = verify(
+                algorithm.hash,
+                Buffer.from(`${encodedHeader}.${encodedPayload}`),
+                { key: createPublicKey({ key: jwk, format: 'jwk' }), dsaEncoding: algorithm.dsaEncoding },
+                Buffer.from(encodedSignature, 'base64url')
+            );
+        } catch {
+            signatureValid = false;
+        }
+        if (!signatureValid) {
+            throw new InvalidDPoPProofError("Invalid DPoP proof signature");
+        }
+
+        if (claims.htm !== request.method || !claims.htu || !sameUrl(claims.htu, request.url)) {
+            throw new InvalidDPoPProofError("DPoP proof was created for another request");
+        }
+        const now = Date.now();
+        if (typeof claims.iat !== 'number'
+            || claims.iat * 1000 > now + CLOCK_SKEW_SECONDS * 1000
+            || claims.iat * 1000 + this._proofLifetimeMs < now) {
+            throw new InvalidDPoPProofError("DPoP proof has expired or was issued in the future");
+        }
+        if (request.accessToken !== undefined
+            && claims.ath !== createHash('sha256').update(request.accessToken).digest('base64url')) {
+            throw new InvalidDPoPProofError("DPoP proof was created for another access token");
+        }
+        if (!claims.nonce || (claims.nonce !== this.nonce && claims.nonce !== this._previousNonce)) {
+            throw new UseDPoPNonceError("DPoP proof must carry the nonce from the DPoP-Nonce header");
+        }
+
+        this._forgetExpiredProofs(now);
+        if (typeof claims.jti !== 'string' || !claims.jti || this._seenProofs.has(claims.jti)) {
+            throw new InvalidDPoPProofError("DPoP proof has already been used");
+        }
+        this._seenProofs.set(claims.jti, claims.iat * 1000 + this._proofLifetimeMs);
+
+        return jwkThumbprint(jwk);
+    }
+
+    private _forgetExpiredProofs(now: number): void {
+        for (const [jti, expiresAt] of this._seenProofs) {
+            if (expiresAt < now) {
+                this._seenProofs.delete(jti);
+            }
+        }
+    }
+}
+
+/**
+ * Whether two URLs are the same once query and fragment are dropped (RFC 9449 section 4.3, check 9)
+ */
+function sameUrl(a: string, b: string): boolean {
+    try {
+        const [urlA, urlB] = [new URL(a), new URL(b)];
+        return urlA.origin === urlB.origin && urlA.pathname === urlB.pathname;
+    } catch {
+        return false;
+    }
+}
+
+function decodeSegment<T>(segment: string): T {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
@@ -0,0 +1,124 @@
+import { AccessPolicy, UpstreamUserInfo } from './UpstreamIdentityProvider.js';
+import { z } from 'zod';
+import { GitHubEndpoints } from './GHEndpoints.js';
+import { createLogger } from '../../shared/logger.js';
+
+const logger = createLogger('auth.policy');
+
+// Organization and team memberships are "active", or "pending" until the user accepts the invitation
+const GitHubMembershipSchema = z.object({ state: z.string() });
+
+export interface GitHubAccessPolicyOptions {
+    // GitHub logins allowed regardless of membership
+    allowedUsers?: string[];
+    // Organizations whose active members are allowed
+    allowedOrgs?: string[];
+    // Teams whose active members are allowed, as "org/team-slug"
+    allowedTeams?: string[];
+    // GitHub instance the users belong to (defaults to github.com)
+    endpoints?: GitHubEndpoints;
+}
+
+/**
+ * Restricts sign-in to listed GitHub users and to active members of listed organizations or teams.
+ * Membership is read with the user's own token, which needs the read:org scope when organizations or teams are listed.
+ */
+export class GitHubAccessPolicy implements AccessPolicy {
+    private _allowedUsers: string[];
+    private _allowedOrgs: string[];
+    private _allowedTeams: { org: string, teamSlug: string }[];
+    private _endpoints: GitHubEndpoints;
+
+    constructor(options: GitHubAccessPolicyOptions) {
+        this._allowedUsers = (options.allowedUsers ?? []).map(user => user.toLowerCase());
+        this._allowedOrgs = options.allowedOrgs ?? [];
+        this._endpoints = options.endpoints ?? new GitHubEndpoints();
+        this._allowedTeams = (options.allowedTeams ?? []).map(team => {
+            const [org, teamSlug] = team.split('/');
+            if (!org || !teamSlug) {
+                throw new Error(`GitHub team "${team}" must look like org/team-slug`);
+            }
+            return { org, teamSlug };
+        });
+    }
+
+    /**
+     * GitHub scopes the user's token needs for the membership checks
+     */
+    get upstreamScopes(): string[] {
+        return this._allowedOrgs.length > 0 || this._allowedTeams.length > 0 ? ['read:org'] : [];
+    }
+
+    async isAllowed(accessToken: string, user: UpstreamUserInfo): Promise<boolean> {
+        if (this._allowedUsers.includes(user.username.toLowerCase())) {
+            return true;
+        }
+
+        for (const org of this._allowedOrgs) {
+            const state = await this._getMembershipState(
+                this._endpoints.api(`user/memberships/orgs/${encodeURIComponent(org)}`),
+                accessToken
+            );
+            if (state === 'active') {
+                return true;
+            }
+        }
+
+        for (const { org, teamSlug } of this._allowedTeams) {
+            const state = await this._getMembershipState(
+                this._endpoints.api(`orgs/${encodeURIComponent(org)}/teams/${encodeURIComponent(teamSlug)}/memberships/${encodeURIComponent(user.username)}`),
+                accessToken
+            );
+            if (state === 'active') {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    /**
+     * State of a membership ("active" or "pending"), or undefined when the user is not a member
+     */
+    private async _getMembershipState(url: URL, accessToken: string): Promise<string | undefined> {
+        const response = await this._endpoints.fetch(url, {
+            headers: {
+                'Accept': 'application/vnd.github+json',
+                'Authorization': `Bearer ${accessToken}`
+            }
+        });
+
+        // 404: not a member. 403: the organization restricts access by this OAuth app, so membership cannot be confirmed
+        if (response.status === 404 || response.status === 403) {
+            if (response.status === 403) {
+                logger.warn(`GitHub refused a membership check (${url}); has the organization approved this OAuth app?`);
+            }
+            return undefined;
+        }
+        if (!response.ok) {
+            throw new Error(`GitHub membership request failed: ${response.status} ${response.statusText}`);
+        }
+
+        const membership = GitHubMembershipSchema.parse(await response.json());
+        return membership.state;
+    }
+}
+
+/**
+ * Load the allowlist from GITHUB_ALLOWED_USERS, GITHUB_ALLOWED_ORGS and GITHUB_ALLOWED_TEAMS (comma-separated),
+ * or return undefined when none is set and every GitHub user may sign in
+ */
+export function loadGitHubAccessPolicy(env: NodeJS.ProcessEnv = process.env, endpoints?: GitHubEndpoints): GitHubAccessPolicy | undefined {
+    const list = (value?: string) => (value ?? '').split(',').map(entry => entry.trim()).filter(Boolean);
+
+    const options = {
+        allowedUsers: list(env.GITHUB_ALLOWED_USERS),
+        allowedOrgs: list(env.GITHUB_ALLOWED_ORGS),
+        allowedTeams: list(env.GITHUB_ALLOWED_TEAMS),
+        endpoints,
+    };
+    if (options.allowedUsers.length === 0 && options.allowedOrgs.length === 0 && options.allowedTeams.length === 0) {
+        return undefined;
+    }
+    return new GitHubAccessPolicy(options);
+}
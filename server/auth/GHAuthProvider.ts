@@ -1,85 +1,228 @@
 import { OAuthRegisteredClientsStore } from "@modelcontextprotocol/sdk/server/auth/clients.js";
 import { AuthorizationParams, OAuthServerProvider } from "@modelcontextprotocol/sdk/server/auth/provider.js";
 import { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
-import { OAuthClientInformationFull, OAuthTokens, OAuthTokenRevocationRequest } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { OAuthClientInformationFull, OAuthClientMetadata, OAuthTokens, OAuthTokenRevocationRequest } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { InvalidClientError, InvalidClientMetadataError, InvalidGrantError, InvalidRequestError, InvalidScopeError, InvalidTokenError, OAuthError, UnsupportedTokenTypeError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
 import { Response } from "express";
-import fs from 'fs/promises';
 import path from 'path';
 import dotenv from 'dotenv';    
 import * as crypto from 'crypto';
-import { tokenStore } from './TokenStore.js';
+import { createTokenStore, TokenStore, UpstreamCredential } from './TokenStore.js';
+import { TokenData } from './TokenStorage.js';
 import { SessionData } from './SessionData.js';
 import { ClientWithVerifier } from './ClientWithVerifier.js';
-import { existsSync, mkdirSync } from 'fs';
+import { hashClientSecret, SqliteClientsStore } from './SqliteClientsStore.js';
+import { DEFAULT_MCP_SCOPES, hasScope } from '../mcp_scopes.js';
+import {
+    AccessPolicy,
+    createUpstreamIdentityProvider,
+    UpstreamIdentityProvider,
+    UpstreamRefreshError,
+    UpstreamTokens,
+    UpstreamUserInfo
+} from './UpstreamIdentityProvider.js';
+import { loadGitHubAccessPolicy } from './GHAccessPolicy.js';
+import { GitHubIdentityProvider } from './GHIdentityProvider.js';
+import { isJwt, JwtAccessTokenSigner } from './JwtAccessTokens.js';
+import { TokenIntrospectionResponse } from './IntrospectionHandler.js';
+import { DPoPProofVerifier } from './DPoP.js';
+import { auditLog } from './AuditLog.js';
+import { createLogger } from '../../shared/logger.js';
 
 const currentDir = path.dirname(new URL(import.meta.url).pathname);
-const DEFAULT_CLIENTS_FILE = path.join(currentDir, '.auth/registered_clients.json');
+const DEFAULT_CLIENTS_DB_FILE = path.join(currentDir, '.auth/clients.db');
+// Client registry of earlier versions, imported into the database on first start
+const LEGACY_CLIENTS_FILE = path.join(currentDir, '.auth/registered_clients.json');
+const DEFAULT_JWT_KEYS_FILE = path.join(currentDir, '.auth/jwt_keys.json');
+const DEFAULT_ACCESS_TOKEN_LIFETIME_SECONDS = 3600; // 1 hour
+const AUTHORIZATION_SESSION_LIFETIME_MS = 10 * 60 * 1000; // time allowed for the user to finish upstream sign-in
+const AUTHORIZATION_CODE_LIFETIME_MS = 60 * 1000;
+const DEFAULT_ACCESS_RECHECK_INTERVAL_SECONDS = 15 * 60;
+const DEFAULT_JWT_KEY_ROTATION_DAYS = 30;
+// Upstream access tokens are refreshed when they expire within this margin, so they do not expire while in use
+const UPSTREAM_REFRESH_MARGIN_MS = 60 * 1000;
+// How long the outcome of an upstream refresh is handed to requests still holding the refresh token it used up
+const UPSTREAM_REFRESH_SHARING_MS = 5 * 60 * 1000;
+
+const logger = createLogger('auth.provider');
+
+// What the provider reads from a stored session or refresh token to use and refresh its upstream credential
+type FamilyTokenData = Pick<TokenData, 'accessToken' | 'upstreamRefreshToken' | 'upstreamExpiresAt' | 'familyId' | 'clientId' | 'user'>;
+
+/**
+ * The requested resource is unknown or malformed (RFC 8707 section 2)
+ */
+export class InvalidTargetError extends OAuthError {
+    constructor(message: string, errorUri?: string) {
+        super("invalid_target", message, errorUri);
+    }
+}
+
+/**
+ * Client information returned by the registration and client configuration endpoints (RFC 7592 section 3)
+ */
+export type ClientConfiguration = OAuthClientInformationFull & {
+    registration_access_token: string;
+    registration_client_uri: string;
+};
+
+export interface GitHubServerAuthProviderOptions {
+    // Issuer URL of this authorization server (defaults to http://localhost:3000)
+    issuerUrl?: URL;
+    // Callback registered with the upstream provider for browser clients (defaults to http://localhost:3000/auth/callback)
+    callbackUrl?: URL;
+    // Identity provider users sign in with (defaults to the one selected by the UPSTREAM_IDP environment variable)
+    upstreamProvider?: UpstreamIdentityProvider;
+    // Also revoke the stored upstream access token when an MCP token is revoked (defaults to false)
+    revokeUpstreamTokens?: boolean;
+    // Base of the RFC 7592 client configuration endpoints (defaults to http://localhost:3000/auth/register)
+    registrationUrl?: URL;
+    // Who may sign in (defaults to the GITHUB_ALLOWED_USERS/ORGS/TEAMS allowlist with GitHub, or anyone)
+    accessPolicy?: AccessPolicy;
+    // How often the access policy is checked again while a token family is in use (defaults to 15 minutes)
+    accessRecheckIntervalSeconds?: number;
+    // MCP scopes clients can request (defaults to tools:*, prompts:read and resources:read)
+    scopesSupported?: string[];
+    // Resources (RFC 8707) tokens can be issued for, the first one being the default when a client names none
+    // (defaults to the /mcp endpoint of the issuer)
+    resources?: string[];
+    // Registry of OAuth clients (defaults to SQLite at clientsDbPath)
+    clientsStore?: SqliteClientsStore;
+    // SQLite database of the default clients store (defaults to server/auth/.auth/clients.db)
+    clientsDbPath?: string;
+    // Session and refresh tokens (defaults to the store configured by TOKEN_STORE and TOKEN_DB_PATH, see createTokenStore)
+    tokenStore?: TokenStore;
+    // Lifetime of issued access tokens (defaults to 1 hour)
+    accessTokenLifetimeSeconds?: number;
+    // Delete registered clients that have not been used for this many days; 0, the default, keeps them forever
+    staleClientLifetimeDays?: number;
+    // Issue opaque session tokens or JWT access tokens (defaults to opaque)
+    accessTokenFormat?: 'opaque' | 'jwt';
+    // Signing keys of JWT access tokens (defaults to server/auth/.auth/jwt_keys.json)
+    jwtKeysPath?: string;
+    // How often the signing keys of JWT access tokens rotate (defaults to 30 days)
+    jwtKeyRotationDays?: number;
+    // Issue JWT access tokens (RFC 9068) signed by this signer instead of opaque session tokens
+    // (defaults to a signer when the format is jwt, see createJwtAccessTokenSigner)
+    accessTokenSigner?: JwtAccessTokenSigner;
+    // Verifies the DPoP proofs (RFC 9449) of clients that bind their tokens to a key; other clients get bearer tokens
+    dpopProofVerifier?: DPoPProofVerifier;
+    // Called once a token family has been revoked, e.g. to end the MCP sessions opened with its tokens
+    onFamilyRevoked?: (familyId: string) => void;
+}
 
 export class GitHubServerAuthProvider implements OAuthServerProvider {
-    private _clientsMap: Map<string, OAuthClientInformationFull> = new Map();
+    private _clientsStore: SqliteClientsStore;
+    private _tokenStore: TokenStore;
+    private _accessTokenLifetimeSeconds: number;
     private _clientsStoreImpl: OAuthRegisteredClientsStore;
-    private _clientsFilePath: string;
+    private _registrationUrl: URL;
+    private _staleClientLifetimeMs: number;
     private _sessionStore: Map<string, SessionData> = new Map();
     private _tempAuthCodes: Map<string, { sessionToken: string, expires: number }> = new Map();
     private _deviceCodes = new Map<string, {
         clientId: string;
-        githubDeviceCode: string;
+        upstreamDeviceCode: string;
         userCode: string;
         verificationUri: string;
         expiresAt: number;
         interval: number;
+        // When the client last polled, or when the device flow started (ms since epoch)
+        lastPolledAt: number;
+        scopes: string[];
+        resource: string;
         sessionToken?: string;
+        refreshToken?: string;
     }>();
 
-    constructor() {
-        dotenv.config();
-
-        // Check if the environment variables are set
-        const requiredEnvVars = ['GITHUB_CLIENT_ID', 'GITHUB_CLIENT_SECRET'];
-        const missingEnvVars = requiredEnvVars.filter(varName => !process.env[varName]);
-        if (missingEnvVars.length > 0) {
-            throw new Error(`Missing required environment variables: ${missingEnvVars.join(', ')}`);
-        }
+    private _upstream: UpstreamIdentityProvider;
+    private _callbackUrl: URL;
+    private _revokeUpstreamTokens: boolean;
+    private _scopesSupported: string[];
+    private _resources: string[];
+    private _accessPolicy?: AccessPolicy;
+    private _accessRecheckIntervalMs: number;
+    // When each token family last passed the access policy
+    private _accessCheckedAt: Map<string, number> = new Map();
+    // Upstream refreshes by the upstream refresh token they use up, started or recently finished
+    private _upstreamRefreshes: Map<string, { refresh: Promise<UpstreamCredential | undefined>, startedAt: number }> = new Map();
+    private _accessTokenSigner?: JwtAccessTokenSigner;
+    private _dpop: DPoPProofVerifier;
+    private _onFamilyRevoked?: (familyId: string) => void;
 
-        this._clientsFilePath = path.resolve(process.cwd(), DEFAULT_CLIENTS_FILE);
+    constructor(options: GitHubServerAuthProviderOptions = {}) {
+        dotenv.config();
 
-        // Ensure .auth directory exists
-        const authDir = path.dirname(this._clientsFilePath);
-        if (!existsSync(authDir)) {
-            mkdirSync(authDir, { recursive: true });
-        }
+        this._upstream = options.upstreamProvider ?? createUpstreamIdentityProvider();
+        this._callbackUrl = options.callbackUrl ?? new URL('http://localhost:3000/auth/callback');
+        this._revokeUpstreamTokens = options.revokeUpstreamTokens ?? false;
+        this._clientsStore = options.clientsStore ?? new SqliteClientsStore(
+            options.clientsDbPath || DEFAULT_CLIENTS_DB_FILE,
+            LEGACY_CLIENTS_FILE
+        );
+        this._tokenStore = options.tokenStore ?? createTokenStore();
+        this._accessTokenLifetimeSeconds = options.accessTokenLifetimeSeconds ?? DEFAULT_ACCESS_TOKEN_LIFETIME_SECONDS;
+        const staleClientLifetimeDays = options.staleClientLifetimeDays ?? 0;
+        this._staleClientLifetimeMs = staleClientLifetimeDays * 24 * 60 * 60 * 1000;
+        this._registrationUrl = options.registrationUrl ?? new URL('http://localhost:3000/auth/register');
+        this._scopesSupported = options.scopesSupported ?? DEFAULT_MCP_SCOPES;
+        const issuerUrl = options.issuerUrl ?? new URL('http://localhost:3000');
+        this._resources = options.resources ?? [new URL('/mcp', issuerUrl).href];
+        // Membership is checked on the GitHub instance users sign in with
+        this._accessPolicy = options.accessPolicy ?? (this._upstream instanceof GitHubIdentityProvider
+            ? loadGitHubAccessPolicy(process.env, this._upstream.endpoints)
+            : undefined);
+        const accessRecheckIntervalSeconds = options.accessRecheckIntervalSeconds ?? DEFAULT_ACCESS_RECHECK_INTERVAL_SECONDS;
+        this._accessRecheckIntervalMs = accessRecheckIntervalSeconds * 1000;
+        this._accessTokenSigner = options.accessTokenSigner ?? (options.accessTokenFormat === 'jwt'
+            ? createJwtAccessTokenSigner(issuerUrl, this._resources, {
+                keysFile: options.jwtKeysPath,
+                keyRotationDays: options.jwtKeyRotationDays,
+                maxTokenLifetimeSeconds: this._accessTokenLifetimeSeconds
+            })
+            : undefined);
+        this._dpop = options.dpopProofVerifier ?? new DPoPProofVerifier();
+        this._onFamilyRevoked = options.onFamilyRevoked;
 
         this._clientsStoreImpl = {
-            getClient: (clientId: string) => {
-                return this._clientsMap.get(clientId);
-            },
-
-            registerClient: (client: OAuthClientInformationFull) => {
-                this._clientsMap.set(client.client_id, client);
- 
-                this._saveClientsToFile().catch(err => {
-                    console.error("Failed to save client registration:", err);
-                });
-                return client;
-            }
+            getClient: (clientId: string) => this._clientsStore.getClient(clientId),
+            registerClient: (client: OAuthClientInformationFull) => this._registerClient(client)
         };
 
-        this._loadClientsFromFile().catch(err => {
-            console.error("Failed to load registered clients:", err);
-        });
+        // Moves tokens still encrypted with a retired key (or stored in plaintext) to the active key
+        this._tokenStore.reencryptTokens()
+            .then(count => {
+                if (count > 0) {
+                    logger.info(`Re-encrypted ${count} stored upstream tokens with the active key.`);
+                }
+            })
+            .catch(err => {
+                logger.error("Failed to re-encrypt stored tokens", { error: err });
+            });
 
         setInterval(() => {
-            tokenStore.cleanExpiredTokens();
+            this._tokenStore.cleanExpiredTokens().catch(err => {
+                logger.error("Failed to clean expired tokens", { error: err });
+            });
+            this._cleanExpiredAuthorizations();
+            this._cleanStaleClients();
         }, 60000);
     }
 
+    /**
+     * Resolves once the client registry is ready to serve requests
+     */
+    ready(): Promise<void> {
+        return this._clientsStore.ready();
+    }
+
     private async _storeSessionData(state: string, data: SessionData): Promise<void> {
         if (!state) {
             throw new Error("Cannot store session data: state parameter is missing");
         }
 
         this._sessionStore.set(state, data);
-        console.log(`Session data stored for state: ${state}`);
+        logger.debug("Session data stored");
     }
 
     private _getSessionData(state: string): SessionData | undefined {
@@ -88,166 +231,806 @@ export class GitHubServerAuthProvider implements OAuthServerProvider {
 
     private _clearSessionData(state: string): void {
         this._sessionStore.delete(state);
-        console.log(`Session data cleared for state: ${state}`);
+        logger.debug("Session data cleared");
     }
 
-    private async _loadClientsFromFile(): Promise<void> {
-        try {
-            await fs.access(this._clientsFilePath)
-                .catch(() => {
-                    console.log("No saved clients file found. Starting with empty clients list.");
-                    return Promise.reject(new Error("File not found"));
-                });
+    private _cleanExpiredAuthorizations(): void {
+        const now = Date.now();
+        for (const [state, data] of this._sessionStore.entries()) {
+            if (data.expiresAt < now) {
+                this._sessionStore.delete(state);
+            }
+        }
+        for (const [code, data] of this._tempAuthCodes.entries()) {
+            if (data.expires < now) {
+                this._tempAuthCodes.delete(code);
+            }
+        }
+        // Families not checked within the interval are checked again on next use anyway
+        for (const [familyId, checkedAt] of this._accessCheckedAt.entries()) {
+            if (checkedAt < now - this._accessRecheckIntervalMs) {
+                this._accessCheckedAt.delete(familyId);
+            }
+        }
+        for (const [refreshToken, { startedAt }] of this._upstreamRefreshes.entries()) {
+            if (startedAt < now - UPSTREAM_REFRESH_SHARING_MS) {
+                this._upstreamRefreshes.delete(refreshToken);
+            }
+        }
+    }
+
+    private _cleanStaleClients(): void {
+        if (this._staleClientLifetimeMs <= 0) {
+            return;
+        }
+        this._clientsStore.deleteStaleClients(this._staleClientLifetimeMs)
+            .then(async clientIds => {
+                // A deleted client's tokens must stop working with it
+                for (const clientId of clientIds) {
+                    await this._tokenStore.revokeClientTokens(clientId);
+                }
+                if (clientIds.length > 0) {
+                    logger.info(`Deleted ${clientIds.length} registered clients that were not used recently.`);
+                }
+            })
+            .catch(err => {
+                logger.error("Failed to clean stale clients", { error: err });
+            });
+    }
 
-            const fileContent = await fs.readFile(this._clientsFilePath, { encoding: 'utf8' });
-            const clientsData = JSON.parse(fileContent);
+    get clientsStore(): OAuthRegisteredClientsStore {
+        return this._clientsStoreImpl;
+    }
 
-            this._clientsMap.clear();
-            for (const [clientId, clientData] of Object.entries(clientsData)) {
-                this._clientsMap.set(clientId, clientData as OAuthClientInformationFull);
-            }
+    /**
+     * Authenticate a client at the token, device, revocation and introspection endpoints (RFC 6749 section 2.3).
+     * Confidential clients must present their secret; public clients are identified by their client ID alone,
+     * and are rejected where requireSecret is set.
+     */
+    async authenticateClient(clientId: string, clientSecret?: string, requireSecret = false): Promise<OAuthClientInformationFull> {
+        const client = await this._clientsStore.getClient(clientId);
+        if (!client) {
+            throw new InvalidClientError("Invalid client_id");
+        }
 
-            console.log(`Loaded ${this._clientsMap.size} registered clients from file.`);
-        } catch (err) {
-            if ((err as Error).message !== "File not found") {
-                console.error("Error loading clients from file:", err);
+        const secretHash = await this._clientsStore.getClientSecretHash(clientId);
+        if (!secretHash) {
+            if (requireSecret) {
+                throw new InvalidClientError("A confidential client is required");
             }
+            return client;
+        }
+        if (!clientSecret) {
+            throw new InvalidClientError("Client secret is required");
+        }
+        if (!await this.verifyClientSecret(clientId, clientSecret)) {
+            throw new InvalidClientError("Invalid client_secret");
+        }
+        if (client.client_secret_expires_at && client.client_secret_expires_at < Math.floor(Date.now() / 1000)) {
+            throw new InvalidClientError("Client secret has expired");
+        }
+        return client;
+    }
+
+    async verifyClientSecret(clientId: string, clientSecret: string): Promise<boolean> {
+        const expectedHash = await this._clientsStore.getClientSecretHash(clientId);
+        if (!expectedHash) {
+            return false;
+        }
+        return crypto.timingSafeEqual(Buffer.from(hashClientSecret(clientSecret)), Buffer.from(expectedHash));
+    }
+
+    private _hashRegistrationAccessToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+
+    private _clientConfiguration(client: OAuthClientInformationFull, registrationAccessToken: string): ClientConfiguration {
+        return {
+            ...client,
+            registration_access_token: registrationAccessToken,
+            registration_client_uri: `${this._registrationUrl.href}/${encodeURIComponent(client.client_id)}`
+        };
+    }
+
+    /**
+     * Register a client along with a registration access token for managing it (RFC 7592).
+     * Only hashes of the token and the client secret are stored, so both are returned in the registration response only.
+     */
+    private async _registerClient(client: OAuthClientInformationFull): Promise<ClientConfiguration> {
+        const registrationAccessToken = crypto.randomBytes(32).toString('hex');
+        await this._clientsStore.registerClient(client, this._hashRegistrationAccessToken(registrationAccessToken));
+        auditLog.record({
+            event: 'client.registered',
+            outcome: 'success',
+            clientId: client.client_id,
+            details: { client_name: client.client_name, token_endpoint_auth_method: client.token_endpoint_auth_method }
+        });
+        return this._clientConfiguration(client, registrationAccessToken);
+    }
+
+    /**
+     * Look up a client by its registration access token.
+     * Returns undefined if the client does not exist or the token does not match.
+     */
+    async authenticateClientRegistration(clientId: string, registrationAccessToken: string): Promise<OAuthClientInformationFull | undefined> {
+        const expectedHash = await this._clientsStore.getRegistrationAccessTokenHash(clientId);
+        if (!expectedHash) {
+            return undefined;
+        }
+
+        const actualHash = this._hashRegistrationAccessToken(registrationAccessToken);
+        if (!crypto.timingSafeEqual(Buffer.from(actualHash), Buffer.from(expectedHash))) {
+            return undefined;
         }
+
+        return this._clientsStore.getClient(clientId);
+    }
+
+    /**
+     * Client configuration read request (RFC 7592 section 2.1)
+     */
+    getClientConfiguration(client: OAuthClientInformationFull, registrationAccessToken: string): ClientConfiguration {
+        return this._clientConfiguration(client, registrationAccessToken);
     }
 
-    private async _saveClientsToFile(): Promise<void> {
+    /**
+     * Client update request (RFC 7592 section 2.2). The new metadata replaces the old metadata,
+     * while the client ID, secret and issue times are kept. The secret is not returned, since only its hash is stored.
+     * Since the secret is kept, a public client cannot become confidential nor a confidential client public.
+     */
+    async updateClientConfiguration(
+        client: OAuthClientInformationFull,
+        metadata: OAuthClientMetadata,
+        registrationAccessToken: string
+    ): Promise<ClientConfiguration> {
+        const hasSecret = await this._clientsStore.getClientSecretHash(client.client_id) !== undefined;
+        const authMethod = metadata.token_endpoint_auth_method ?? (hasSecret ? 'client_secret_basic' : 'none');
+        if ((authMethod !== 'none') !== hasSecret) {
+            throw new InvalidClientMetadataError(hasSecret
+                ? "A client with a secret cannot change token_endpoint_auth_method to none"
+                : "A client without a secret must keep token_endpoint_auth_method none");
+        }
+
+        const updated: OAuthClientInformationFull = {
+            ...metadata,
+            token_endpoint_auth_method: authMethod,
+            client_id: client.client_id,
+            client_id_issued_at: client.client_id_issued_at,
+            client_secret_expires_at: client.client_secret_expires_at
+        };
+        await this._clientsStore.updateClient(updated);
+        auditLog.record({ event: 'client.updated', outcome: 'success', clientId: client.client_id, details: { client_name: updated.client_name } });
+        return this._clientConfiguration(updated, registrationAccessToken);
+    }
+
+    /**
+     * Client delete request (RFC 7592 section 2.3). Tokens issued to the client are revoked with it.
+     */
+    async deleteClientConfiguration(client: OAuthClientInformationFull): Promise<void> {
+        await this._clientsStore.deleteClient(client.client_id);
+        await this._tokenStore.revokeClientTokens(client.client_id);
+        auditLog.record({ event: 'client.deleted', outcome: 'success', clientId: client.client_id });
+    }
+
+    get upstreamProvider(): UpstreamIdentityProvider {
+        return this._upstream;
+    }
+
+    /**
+     * Profile of the user behind an upstream token, and whether the access policy allows them
+     */
+    private async _authorizeUser(upstreamAccessToken: string): Promise<{ user: UpstreamUserInfo, allowed: boolean }> {
+        const user = await this._upstream.getUserInfo(upstreamAccessToken);
+        if (this._accessPolicy && !(await this._accessPolicy.isAllowed(upstreamAccessToken, user))) {
+            logger.warn("User is not allowed by the access policy", { user: user.username });
+            return { user, allowed: false };
+        }
+        return { user, allowed: true };
+    }
+
+    /**
+     * Upstream credential of a token family, refreshed first when the upstream access token has expired or is about to.
+     * When the upstream provider refuses the refresh, the token family is revoked and undefined is returned.
+     * If the refresh fails otherwise, the current credential is returned and the refresh is tried again on next use.
+     */
+    private async _upstreamCredential(tokenData: FamilyTokenData): Promise<UpstreamCredential | undefined> {
+        const refreshToken = tokenData.upstreamRefreshToken;
+        const current = { accessToken: tokenData.accessToken, refreshToken, expiresAt: tokenData.upstreamExpiresAt };
+        if (!refreshToken || current.expiresAt === undefined || current.expiresAt > Date.now() + UPSTREAM_REFRESH_MARGIN_MS) {
+            return current;
+        }
+
+        // Upstream refresh tokens are single use, so requests holding the same one share its refresh,
+        // including requests that read their token just before another request refreshed it
+        let pending = this._upstreamRefreshes.get(refreshToken);
+        if (!pending) {
+            pending = { refresh: this._refreshUpstreamCredential(tokenData, current), startedAt: Date.now() };
+            this._upstreamRefreshes.set(refreshToken, pending);
+            pending.refresh.catch(() => this._upstreamRefreshes.delete(refreshToken));
+        }
+        return pending.refresh;
+    }
+
+    private async _refreshUpstreamCredential(tokenData: FamilyTokenData, current: UpstreamCredential): Promise<UpstreamCredential | undefined> {
+        let result: UpstreamTokens | UpstreamRefreshError;
+        try {
+            result = await this._upstream.refreshAccessToken(current.refreshToken!);
+        } catch (error) {
+            logger.error("Error refreshing upstream access token", { error });
+            this._upstreamRefreshes.delete(current.refreshToken!);
+            return current;
+        }
+
+        if ('error' in result) {
+            logger.warn("Upstream provider refused to refresh the access token, revoking token family", {
+                client_id: tokenData.clientId,
+                reason: result.error_description
+            });
+            this._accessCheckedAt.delete(tokenData.familyId);
+            await this._revokeFamily(tokenData.familyId);
+            auditLog.record({
+                event: 'upstream.refreshed',
+                outcome: 'failure',
+                actor: tokenData.user,
+                clientId: tokenData.clientId,
+                details: { reason: result.error_description }
+            });
+            return undefined;
+        }
+
+        const refreshed = upstreamCredential(result);
+        await this._tokenStore.updateUpstreamCredential(tokenData.familyId, refreshed);
+        auditLog.record({ event: 'upstream.refreshed', outcome: 'success', actor: tokenData.user, clientId: tokenData.clientId });
+        return refreshed;
+    }
+
+    /**
+     * Check that a token family in use is still backed by a valid upstream credential, refreshing it when needed,
+     * and check the access policy again once the recheck interval has passed.
+     * Resolves the family's upstream credential, or undefined once the family has been revoked: when the upstream
+     * provider refuses the refresh, or the access policy denies the user. If the policy check itself fails,
+     * access is kept until the next check.
+     */
+    private async _recheckAccess(tokenData: FamilyTokenData): Promise<UpstreamCredential | undefined> {
+        const upstream = await this._upstreamCredential(tokenData);
+        if (!upstream || !this._accessPolicy) {
+            return upstream;
+        }
+        const checkedAt = this._accessCheckedAt.get(tokenData.familyId);
+        if (checkedAt && checkedAt > Date.now() - this._accessRecheckIntervalMs) {
+            return upstream;
+        }
+
+        // Mark before checking, so concurrent requests of the same family do not all call the upstream provider
+        this._accessCheckedAt.set(tokenData.familyId, Date.now());
+        let user: UpstreamUserInfo;
         try {
-            const clientsObject: Record<string, OAuthClientInformationFull> = {};
-            for (const [clientId, clientData] of this._clientsMap.entries()) {
-                clientsObject[clientId] = clientData;
+            const authorization = await this._authorizeUser(upstream.accessToken);
+            if (authorization.allowed) {
+                return upstream;
             }
+            user = authorization.user;
+        } catch (error) {
+            logger.error("Error re-checking access policy", { error });
+            return upstream;
+        }
 
-            await fs.writeFile(
-                this._clientsFilePath,
-                JSON.stringify(clientsObject, null, 2),
-                { encoding: 'utf8' }
-            );
+        this._accessCheckedAt.delete(tokenData.familyId);
+        await this._revokeFamily(tokenData.familyId);
+        auditLog.record({ event: 'access.revoked', outcome: 'success', actor: user, clientId: tokenData.clientId });
+        return undefined;
+    }
 
-            console.log(`Saved ${this._clientsMap.size} registered clients to file.`);
-        } catch (err) {
-            console.error("Error saving clients to file:", err);
-            throw err;
+    /**
+     * Revoke every token of a family, and let the application end what was opened with them
+     */
+    private async _revokeFamily(familyId: string): Promise<void> {
+        await this._tokenStore.revokeFamily(familyId);
+        this._onFamilyRevoked?.(familyId);
+    }
+
+    get scopesSupported(): string[] {
+        return this._scopesSupported;
+    }
+
+    get resources(): string[] {
+        return this._resources;
+    }
+
+    /**
+     * The resource (RFC 8707) to bind tokens to: the one the client requested, or the default resource.
+     * Only one resource per token is supported.
+     */
+    private _targetResource(requestedResource?: string | string[]): string {
+        const requested = Array.isArray(requestedResource) ? requestedResource : requestedResource ? [requestedResource] : [];
+        if (requested.length === 0) {
+            return this._resources[0];
+        }
+        if (requested.length > 1) {
+            throw new InvalidTargetError("Only one resource can be requested");
+        }
+
+        const [resource] = requested;
+        let url: URL;
+        try {
+            url = new URL(resource);
+        } catch {
+            throw new InvalidTargetError("Resource must be an absolute URI");
         }
+        if (url.hash) {
+            throw new InvalidTargetError("Resource must not include a fragment");
+        }
+        if (!this._resources.includes(url.href)) {
+            throw new InvalidTargetError(`Unknown resource: ${resource}`);
+        }
+        return url.href;
     }
 
-    get clientsStore(): OAuthRegisteredClientsStore {
-        return this._clientsStoreImpl;
+    /**
+     * Keys that verify JWT access tokens, or undefined when opaque session tokens are issued
+     */
+    get jwks(): { keys: crypto.JsonWebKey[] } | undefined {
+        return this._accessTokenSigner?.jwks;
+    }
+
+    /**
+     * Verifier of DPoP proofs, shared by the token endpoint and the protected resources so both hand out the same nonce
+     */
+    get dpop(): DPoPProofVerifier {
+        return this._dpop;
+    }
+
+    /**
+     * The access token handed to the client for a stored session token: the session token itself,
+     * or a JWT carrying the session's client, scopes, expiry and user when a signer is configured
+     */
+    private _issueAccessToken(
+        sessionToken: string,
+        tokenData: { clientId: string, scopes: string[], expiresAt: number, user?: UpstreamUserInfo, resource?: string, dpopJkt?: string }
+    ): string {
+        if (!this._accessTokenSigner) {
+            return sessionToken;
+        }
+        return this._accessTokenSigner.sign({
+            // Tokens issued before resources were recorded were meant for the default resource
+            aud: tokenData.resource ?? this._resources[0],
+            sub: tokenData.user?.id ?? tokenData.clientId,
+            exp: Math.floor(tokenData.expiresAt / 1000),
+            client_id: tokenData.clientId,
+            scope: tokenData.scopes.join(' '),
+            preferred_username: tokenData.user?.username,
+            email: tokenData.user?.email,
+            name: tokenData.user?.name,
+            cnf: tokenData.dpopJkt ? { jkt: tokenData.dpopJkt } : undefined
+        });
+    }
+
+    /**
+     * MCP scopes to grant a client. Clients may only request supported scopes within the scope they registered with;
+     * without a request they get their registered scope, or the default scopes.
+     */
+    private _grantedScopes(client: OAuthClientInformationFull, requestedScopes?: string[]): string[] {
+        const allowedScopes = client.scope ? client.scope.split(' ') : DEFAULT_MCP_SCOPES;
+        if (!requestedScopes || requestedScopes.length === 0) {
+            return allowedScopes.filter(scope => this._scopesSupported.includes(scope));
+        }
+
+        for (const scope of requestedScopes) {
+            if (!this._scopesSupported.includes(scope)) {
+                throw new InvalidScopeError(`Unsupported scope: ${scope}`);
+            }
+            if (!hasScope(allowedScopes, scope)) {
+                throw new InvalidScopeError(`Client is not allowed to request scope: ${scope}`);
+            }
+        }
+        return requestedScopes;
     }
 
     // required method for OAuthServerProvider
+    // browser flow: send the user to the upstream provider, which returns to /auth/callback (device clients use /auth/device/authorize)
     async authorize(client: OAuthClientInformationFull, params: AuthorizationParams, res: Response): Promise<void> {
-        console.log(`Authorizing client ${client.client_id} using device flow`);
+        logger.info("Authorizing client using authorization code flow", { client_id: client.client_id });
+        const scopes = this._grantedScopes(client, params.scopes);
+
+        // Our own state and PKCE pair for the upstream leg of the flow
+        const state = crypto.randomBytes(32).toString('hex');
+        const codeVerifier = crypto.randomBytes(32).toString('base64url');
+        const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+        await this._storeSessionData(state, {
+            clientId: client.client_id,
+            state,
+            codeVerifier,
+            redirectUri: params.redirectUri,
+            originalState: params.state,
+            clientCodeChallenge: params.codeChallenge,
+            clientCodeChallengeMethod: 'S256',
+            scopes,
+            // The browser flow does not take resource indicators yet, so its tokens are for the default resource
+            resource: this._targetResource(),
+            expiresAt: Date.now() + AUTHORIZATION_SESSION_LIFETIME_MS
+        });
+
+        const authorizationUrl = await this._upstream.authorizationUrl({
+            redirectUri: this._callbackUrl.href,
+            state,
+            codeChallenge
+        });
+        auditLog.record({ event: 'authorization.started', outcome: 'success', clientId: client.client_id, details: { scopes } });
+        res.redirect(302, authorizationUrl.href);
+    }
+
+    /**
+     * Completes the upstream leg of the browser flow: exchanges the upstream code, mints a session token
+     * and a temporary authorization code, and returns the client redirect URL carrying that code (or an error)
+     */
+    async handleAuthorizationCallback(params: { code?: string; state?: string; error?: string; error_description?: string }): Promise<string> {
+        const sessionData = params.state ? this._getSessionData(params.state) : undefined;
+        if (!sessionData || sessionData.expiresAt < Date.now()) {
+            if (params.state) {
+                this._clearSessionData(params.state);
+            }
+            throw new InvalidRequestError("Unknown or expired authorization state");
+        }
+        this._clearSessionData(sessionData.state);
+
+        const redirectUrl = new URL(sessionData.redirectUri);
+        if (sessionData.originalState) {
+            redirectUrl.searchParams.set('state', sessionData.originalState);
+        }
+
+        if (params.error || !params.code) {
+            auditLog.record({
+                event: 'authorization.denied',
+                outcome: 'failure',
+                clientId: sessionData.clientId,
+                details: { reason: params.error ?? 'missing code' }
+            });
+            redirectUrl.searchParams.set('error', params.error === 'access_denied' ? 'access_denied' : 'server_error');
+            redirectUrl.searchParams.set('error_description', params.error_description || 'Upstream authorization failed');
+            return redirectUrl.href;
+        }
+
         try {
-            const deviceAuthData = await this.initiateDeviceFlow(client.client_id);
-            res.json(deviceAuthData);
-        } catch (error) {
-            console.error("Device flow error:", error);
-            res.status(500).json({ 
-                error: "server_error", 
-                error_description: `Failed to initialize device flow: ${error}`
+            const tokens = await this._upstream.exchangeAuthorizationCode(params.code, this._callbackUrl.href, sessionData.codeVerifier);
+
+            const { user, allowed } = await this._authorizeUser(tokens.accessToken);
+            if (!allowed) {
+                auditLog.record({
+                    event: 'authorization.denied',
+                    outcome: 'failure',
+                    actor: user,
+                    clientId: sessionData.clientId,
+                    details: { reason: 'access policy' }
+                });
+                redirectUrl.searchParams.set('error', 'access_denied');
+                redirectUrl.searchParams.set('error_description', 'User is not allowed to access this server');
+                return redirectUrl.href;
+            }
+
+            const familyId = crypto.randomBytes(16).toString('hex');
+            const sessionToken = await this._tokenStore.storeToken(
+                upstreamCredential(tokens),
+                this._accessTokenLifetimeSeconds,
+                sessionData.clientId,
+                sessionData.scopes,
+                sessionData.clientCodeChallenge,
+                sessionData.clientCodeChallengeMethod,
+                familyId,
+                user,
+                sessionData.resource
+            );
+            this._accessCheckedAt.set(familyId, Date.now());
+
+            const authorizationCode = crypto.randomBytes(32).toString('hex');
+            this._tempAuthCodes.set(authorizationCode, {
+                sessionToken,
+                expires: Date.now() + AUTHORIZATION_CODE_LIFETIME_MS
+            });
+
+            redirectUrl.searchParams.set('code', authorizationCode);
+            auditLog.record({
+                event: 'authorization.approved',
+                outcome: 'success',
+                actor: user,
+                clientId: sessionData.clientId,
+                details: { scopes: sessionData.scopes, resource: sessionData.resource }
             });
+        } catch (error) {
+            logger.error("Error completing upstream authorization", { error });
+            redirectUrl.searchParams.set('error', 'server_error');
+            redirectUrl.searchParams.set('error_description', 'Failed to complete upstream authorization');
         }
+
+        return redirectUrl.href;
     }
 
     // required method for OAuthServerProvider 
     // (not needed in device flow
     // in browser flow, the challenge is needed to verify against code verifier to ensure the same client that started the flow is completing it
     async challengeForAuthorizationCode(client: OAuthClientInformationFull, authorizationCode: string): Promise<string> {
-        try {
-            console.log("Challenging for authorization code ", authorizationCode);
-            const tempCodeData = this._tempAuthCodes.get(authorizationCode);
-            if (!tempCodeData || tempCodeData.expires < Date.now()) {
-                this._tempAuthCodes.delete(authorizationCode);
-                throw new Error("Invalid or expired authorization code");
-            }
-
-            const sessionToken = tempCodeData.sessionToken;
-            const storedToken = tokenStore.getToken(sessionToken);
-
-            if (!storedToken) {
-                throw new Error("Invalid session token");
-            }
+        const tempCodeData = this._tempAuthCodes.get(authorizationCode);
+        if (!tempCodeData || tempCodeData.expires < Date.now()) {
+            this._tempAuthCodes.delete(authorizationCode);
+            throw new InvalidGrantError("Invalid or expired authorization code");
+        }
 
-            return storedToken.clientCodeChallenge || '';
-        } catch (error) {
-            console.error("Error retrieving code challenge:", error);
-            throw new Error(`Failed to get code challenge: ${error instanceof Error ? error.message : String(error)}`);
+        const storedToken = await this._tokenStore.getToken(tempCodeData.sessionToken);
+        if (!storedToken || storedToken.clientId !== client.client_id) {
+            throw new InvalidGrantError("Authorization code was not issued to this client");
         }
+
+        return storedToken.clientCodeChallenge || '';
     }
 
     // required method for OAuthServerProvider
-    async exchangeRefreshToken(client: OAuthClientInformationFull, refreshToken: string, scopes?: string[]): Promise<OAuthTokens> {
-        throw new Error("Refresh token exchange not implemented");
+    // refresh tokens are single use: every exchange rotates them, and replaying a rotated one revokes the whole family
+    // dpopJkt: key of the DPoP proof sent with the request, which a DPoP-bound refresh token requires (RFC 9449 section 5)
+    async exchangeRefreshToken(client: OAuthClientInformationFull, refreshToken: string, scopes?: string[], dpopJkt?: string): Promise<OAuthTokens> {
+        const refreshData = await this._tokenStore.getRefreshToken(refreshToken);
+        if (!refreshData || refreshData.clientId !== client.client_id) {
+            throw new InvalidGrantError("Invalid or expired refresh token");
+        }
+        if (refreshData.dpopJkt && refreshData.dpopJkt !== dpopJkt) {
+            throw new InvalidGrantError("Refresh token requires a DPoP proof of the key it is bound to");
+        }
+        // A bearer refresh token presented with a DPoP proof yields tokens bound to the proof's key
+        const boundJkt = refreshData.dpopJkt ?? dpopJkt;
+
+        const requestedScopes = scopes ?? refreshData.scopes;
+        const unknownScopes = requestedScopes.filter(scope => !refreshData.scopes.includes(scope));
+        if (unknownScopes.length > 0) {
+            throw new InvalidScopeError(`Scopes not granted to refresh token: ${unknownScopes.join(' ')}`);
+        }
+
+        // Reuse is detected before anything reaches upstream, so a replayed token cannot spend the upstream refresh token
+        if (!(await this._tokenStore.markRefreshTokenRotated(refreshToken))) {
+            logger.warn("Refresh token reuse detected, revoking token family", { client_id: client.client_id });
+            await this._revokeFamily(refreshData.familyId);
+            auditLog.record({ event: 'token.reused', outcome: 'failure', actor: refreshData.user, clientId: client.client_id });
+            throw new InvalidGrantError("Refresh token has already been used");
+        }
+
+        // The upstream credential, refreshed if it has expired, carries over to the new tokens
+        const upstream = await this._recheckAccess(refreshData);
+        if (!upstream) {
+            throw new InvalidGrantError("User is no longer allowed to access this server");
+        }
+
+        const sessionToken = await this._tokenStore.storeToken(
+            upstream,
+            this._accessTokenLifetimeSeconds,
+            client.client_id,
+            requestedScopes,
+            undefined,
+            undefined,
+            refreshData.familyId,
+            refreshData.user,
+            refreshData.resource,
+            boundJkt
+        );
+        // The new refresh token keeps the originally granted scopes, even if this access token was narrowed
+        const newRefreshToken = await this._tokenStore.issueRefreshToken(sessionToken, refreshData.scopes);
+        auditLog.record({
+            event: 'token.refreshed',
+            outcome: 'success',
+            actor: refreshData.user,
+            clientId: client.client_id,
+            details: { scopes: requestedScopes, dpop: !!boundJkt }
+        });
+
+        return {
+            access_token: this._issueAccessToken(sessionToken, {
+                clientId: client.client_id,
+                scopes: requestedScopes,
+                expiresAt: Date.now() + this._accessTokenLifetimeSeconds * 1000,
+                user: refreshData.user,
+                resource: refreshData.resource,
+                dpopJkt: boundJkt
+            }),
+            token_type: tokenType(boundJkt),
+            expires_in: this._accessTokenLifetimeSeconds,
+            refresh_token: newRefreshToken,
+            scope: requestedScopes.join(' ')
+        };
     }
 
     // required method for OAuthServerProvider
+    // JWT access tokens are checked by signature alone; the access policy is checked again when they are refreshed
     async verifyAccessToken(token: string): Promise<AuthInfo> {
-        const storedToken = tokenStore.getToken(token);
+        if (this._accessTokenSigner && isJwt(token)) {
+            const claims = this._accessTokenSigner.verify(token);
+            const user: UpstreamUserInfo | undefined = claims.sub !== claims.client_id
+                ? { id: claims.sub, username: claims.preferred_username ?? claims.sub, email: claims.email, name: claims.name }
+                : undefined;
+            return {
+                token,
+                clientId: claims.client_id,
+                scopes: claims.scope ? claims.scope.split(' ') : [],
+                expiresAt: claims.exp,
+                extra: { user, resource: Array.isArray(claims.aud) ? claims.aud[0] : claims.aud, dpopJkt: claims.cnf?.jkt }
+            };
+        }
+
+        const storedToken = await this._tokenStore.getToken(token);
 
         if (!storedToken) {
-            throw new Error("Invalid or expired token");
+            throw new InvalidTokenError("Invalid or expired token");
         }
 
         if (storedToken.expiresAt < Date.now()) {
-            tokenStore.removeToken(token);
-            throw new Error("Token has expired");
+            await this._tokenStore.removeToken(token);
+            throw new InvalidTokenError("Token has expired");
+        }
+
+        if (storedToken.resource && !this._resources.includes(storedToken.resource)) {
+            throw new InvalidTokenError("Token is not meant for a resource of this server");
+        }
+
+        if (!(await this._recheckAccess(storedToken))) {
+            throw new InvalidTokenError("User is no longer allowed to access this server");
         }
 
         return {
             token: token,
             clientId: storedToken.clientId,
             scopes: storedToken.scopes,
-            expiresAt: storedToken.expiresAt
+            expiresAt: Math.floor(storedToken.expiresAt / 1000),
+            // user is read by MCP handlers through getAuthenticatedUser; resource and dpopJkt by the bearer middleware;
+            // familyId by the MCP endpoint, which ends the family's sessions once it is revoked
+            extra: { user: storedToken.user, resource: storedToken.resource, dpopJkt: storedToken.dpopJkt, familyId: storedToken.familyId }
         };
     }
 
-    // required method for OAuthServerProvider 
-    async revokeToken(client: OAuthClientInformationFull, request: OAuthTokenRevocationRequest): Promise<void> {
-        throw new Error("Token revocation not implemented");
+    /**
+     * Token introspection (RFC 7662) of an access or refresh token issued by this server.
+     * Unknown, expired, revoked and already rotated tokens, and those of users no longer allowed, are inactive.
+     */
+    async introspectToken(token: string, tokenTypeHint?: string): Promise<TokenIntrospectionResponse> {
+        const lookups = [
+            () => this._introspectAccessToken(token),
+            () => this._introspectRefreshToken(token)
+        ];
+        if (tokenTypeHint === 'refresh_token') {
+            lookups.reverse();
+        }
+
+        for (const lookup of lookups) {
+            const response = await lookup();
+            if (response) {
+                return response;
+            }
+        }
+        return { active: false };
     }
 
-    // required method for OAuthServerProvider
-    // not needed in device flow, where device code replaces auth code
-    async exchangeAuthorizationCode(client: ClientWithVerifier, authorizationCode: string): Promise<OAuthTokens> {
+    private async _introspectAccessToken(token: string): Promise<TokenIntrospectionResponse | undefined> {
+        let authInfo: AuthInfo;
         try {
-            console.log(`Exchanging authorization code for client ${client.client_id}`);
-            console.log("Using Authorization code ", authorizationCode);
-
-            const tempCodeData = this._tempAuthCodes.get(authorizationCode);
-            if (!tempCodeData || tempCodeData.expires < Date.now()) {
-                this._tempAuthCodes.delete(authorizationCode);
-                throw new Error("Invalid or expired authorization code");
+            authInfo = await this.verifyAccessToken(token);
+        } catch (error) {
+            if (error instanceof InvalidTokenError) {
+                return undefined;
             }
+            throw error;
+        }
 
-            this._tempAuthCodes.delete(authorizationCode);
+        const user = authInfo.extra?.user as UpstreamUserInfo | undefined;
+        const dpopJkt = authInfo.extra?.dpopJkt as string | undefined;
+        return {
+            active: true,
+            client_id: authInfo.clientId,
+            aud: authInfo.extra?.resource as string | undefined,
+            scope: authInfo.scopes.join(' '),
+            exp: authInfo.expiresAt,
+            sub: user?.id,
+            username: user?.username,
+            token_type: tokenType(dpopJkt),
+            cnf: dpopJkt ? { jkt: dpopJkt } : undefined
+        };
+    }
 
-            const sessionToken = tempCodeData.sessionToken;
-            const storedToken = tokenStore.getToken(sessionToken);
+    private async _introspectRefreshToken(token: string): Promise<TokenIntrospectionResponse | undefined> {
+        const refreshData = await this._tokenStore.getRefreshToken(token);
+        if (!refreshData || refreshData.rotatedAt || !(await this._recheckAccess(refreshData))) {
+            return undefined;
+        }
 
-            if (!storedToken) {
-                throw new Error("Invalid session token");
+        return {
+            active: true,
+            client_id: refreshData.clientId,
+            aud: refreshData.resource,
+            scope: refreshData.scopes.join(' '),
+            exp: Math.floor(refreshData.expiresAt / 1000),
+            sub: refreshData.user?.id,
+            username: refreshData.user?.username,
+            token_type: 'refresh_token',
+            cnf: refreshData.dpopJkt ? { jkt: refreshData.dpopJkt } : undefined
+        };
+    }
+
+    // required method for OAuthServerProvider 
+    // accepts access or refresh tokens (RFC 7009); revoking either revokes every token from the same authorization
+    async revokeToken(client: OAuthClientInformationFull, request: OAuthTokenRevocationRequest): Promise<void> {
+        if (this._accessTokenSigner && isJwt(request.token)) {
+            throw new UnsupportedTokenTypeError("JWT access tokens cannot be revoked; revoke the refresh token instead");
+        }
+
+        const lookups = [
+            () => this._tokenStore.getToken(request.token),
+            () => this._tokenStore.getRefreshToken(request.token)
+        ];
+        if (request.token_type_hint === 'refresh_token') {
+            lookups.reverse();
+        }
+
+        let tokenData: FamilyTokenData | undefined;
+        for (const lookup of lookups) {
+            tokenData = await lookup();
+            if (tokenData) {
+                break;
             }
+        }
 
-            return {
-                access_token: sessionToken,
-                token_type: "Bearer",
-                expires_in: Math.floor((storedToken.expiresAt - Date.now()) / 1000),
-                refresh_token: crypto.randomBytes(32).toString('hex'),
-                scope: storedToken.scopes.join(' ')
-            };
-        } catch (error) {
-            console.error("Error exchanging authorization code for tokens:", error);
-            throw new Error(`Failed to exchange authorization code: ${error instanceof Error ? error.message : String(error)}`);
+        // Unknown, expired and other clients' tokens are ignored, as the spec requires
+        if (!tokenData || tokenData.clientId !== client.client_id) {
+            return;
+        }
+
+        await this._revokeFamily(tokenData.familyId);
+        logger.info("Revoked tokens", { client_id: client.client_id });
+        auditLog.record({ event: 'token.revoked', outcome: 'success', actor: tokenData.user, clientId: client.client_id });
+
+        if (this._revokeUpstreamTokens && tokenData.accessToken) {
+            try {
+                // An expired upstream token is refreshed first, so what gets revoked is still valid upstream
+                const upstream = await this._upstreamCredential(tokenData);
+                if (upstream) {
+                    await this._upstream.revokeToken(upstream.accessToken);
+                }
+            } catch (error) {
+                logger.error("Error revoking upstream access token", { error });
+            }
         }
     }
 
+    // required method for OAuthServerProvider
+    // browser flow only: in device flow the device code replaces the auth code
+    // PKCE has already been verified against challengeForAuthorizationCode by the token handler
+    async exchangeAuthorizationCode(client: ClientWithVerifier, authorizationCode: string): Promise<OAuthTokens> {
+        logger.info("Exchanging authorization code", { client_id: client.client_id });
+
+        const tempCodeData = this._tempAuthCodes.get(authorizationCode);
+        // Authorization codes are single use
+        this._tempAuthCodes.delete(authorizationCode);
+        if (!tempCodeData || tempCodeData.expires < Date.now()) {
+            throw new InvalidGrantError("Invalid or expired authorization code");
+        }
 
-    async initiateDeviceFlow(clientId: string): Promise<{
+        const sessionToken = tempCodeData.sessionToken;
+        const storedToken = await this._tokenStore.getToken(sessionToken);
+
+        if (!storedToken || storedToken.clientId !== client.client_id) {
+            throw new InvalidGrantError("Authorization code was not issued to this client");
+        }
+        auditLog.record({
+            event: 'token.issued',
+            outcome: 'success',
+            actor: storedToken.user,
+            clientId: client.client_id,
+            details: { grant_type: 'authorization_code', scopes: storedToken.scopes }
+        });
+
+        return {
+            access_token: this._issueAccessToken(sessionToken, storedToken),
+            token_type: tokenType(storedToken.dpopJkt),
+            expires_in: Math.floor((storedToken.expiresAt - Date.now()) / 1000),
+            refresh_token: await this._tokenStore.issueRefreshToken(sessionToken),
+            scope: storedToken.scopes.join(' ')
+        };
+    }
+
+    async initiateDeviceFlow(client: OAuthClientInformationFull, requestedScopes?: string[], requestedResource?: string | string[]): Promise<{
         device_code: string;
         user_code: string;
         verification_uri: string;
@@ -255,74 +1038,79 @@ export class GitHubServerAuthProvider implements OAuthServerProvider {
         expires_in: number;
         interval: number;
     }> {
-        console.log(`Initiating GitHub device flow for client with id: ${clientId}`);
-        // Request device code from GitHub
-        const response = await fetch('https://github.com/login/device/code', {
-            method: 'POST',
-            headers: {
-                'Accept': 'application/json',
-                'Content-Type': 'application/json'
-            },
-            body: JSON.stringify({
-                client_id: process.env.GITHUB_CLIENT_ID,
-                scope: 'read:user user:email'
-            })
-        });
-        
-        if (!response.ok) {
-            const errorText = await response.text();
-            console.error('GitHub error response:', {
-                status: response.status,
-                statusText: response.statusText,
-                body: errorText
-            });
-            throw new Error(`GitHub device code request failed: ${response.status} ${response.statusText}\n${errorText}`);
-        }
-        
-        // Parse GitHub response
-        const data = await response.json();
+        logger.info(`Initiating ${this._upstream.name} device flow`, { client_id: client.client_id });
+        const scopes = this._grantedScopes(client, requestedScopes);
+        const resource = this._targetResource(requestedResource);
+
+        // Request device code from the upstream identity provider
         const {
-            device_code,
-            user_code,
-            verification_uri,
-            expires_in,
+            deviceCode,
+            userCode,
+            verificationUri,
+            verificationUriComplete,
+            expiresIn,
             interval
-        } = data;
+        } = await this._upstream.startDeviceAuthorization();
         
         // Generate internal device code to track this request
         const internalDeviceCode = crypto.randomBytes(32).toString('hex');
         
         // Store the codes
         this._deviceCodes.set(internalDeviceCode, {
-            clientId,
-            githubDeviceCode: device_code,
-            userCode: user_code,
-            verificationUri: verification_uri,
-            expiresAt: Date.now() + (expires_in * 1000),
-            interval
+            clientId: client.client_id,
+            upstreamDeviceCode: deviceCode,
+            userCode,
+            verificationUri,
+            expiresAt: Date.now() + (expiresIn * 1000),
+            interval,
+            lastPolledAt: Date.now(),
+            scopes,
+            resource
+        });
+        
+        auditLog.record({
+            event: 'device.started',
+            outcome: 'success',
+            clientId: client.client_id,
+            details: { user_code_hash: hashUserCode(userCode), scopes, resource }
         });
         
         // Return details to client
         return {
-            device_code: internalDeviceCode, // Return our internal code, not GitHub's
-            user_code,
-            verification_uri,
-            verification_uri_complete: `${verification_uri}?user_code=${user_code}`,
-            expires_in,
+            device_code: internalDeviceCode, // Return our internal code, not the upstream one
+            user_code: userCode,
+            verification_uri: verificationUri,
+            verification_uri_complete: verificationUriComplete ?? `${verificationUri}?user_code=${userCode}`,
+            expires_in: expiresIn,
             interval
         };
     }
 
     // Method to check authorization status
-    async checkDeviceCodeStatus(deviceCode: string): Promise<OAuthTokens | { error: string, error_description: string }> {
+    // a resource named in the token request must be the one named at device authorization (RFC 8707 section 2.2)
+    // dpopJkt: key of the DPoP proof sent with the request, which the tokens are bound to
+    async checkDeviceCodeStatus(deviceCode: string, clientId: string, requestedResource?: string | string[], dpopJkt?: string): Promise<OAuthTokens | { error: string, error_description: string }> {
         // Get device code data
         const deviceData = this._deviceCodes.get(deviceCode);
-        if (!deviceData) {
+        if (!deviceData || deviceData.clientId !== clientId) {
             return { 
                 error: 'invalid_grant', 
                 error_description: 'Device code not found'
             };
         }
+
+        if (requestedResource) {
+            try {
+                if (this._targetResource(requestedResource) !== deviceData.resource) {
+                    throw new InvalidTargetError("Resource does not match the device authorization request");
+                }
+            } catch (error) {
+                if (error instanceof InvalidTargetError) {
+                    return error.toResponseObject() as { error: string, error_description: string };
+                }
+                throw error;
+            }
+        }
         
         // Check if expired
         if (deviceData.expiresAt < Date.now()) {
@@ -335,92 +1123,212 @@ export class GitHubServerAuthProvider implements OAuthServerProvider {
         
         // If we already have a session token, return it
         if (deviceData.sessionToken) {
-            const storedToken = tokenStore.getToken(deviceData.sessionToken);
+            const storedToken = await this._tokenStore.getToken(deviceData.sessionToken);
             if (storedToken) {
+                if (storedToken.dpopJkt !== dpopJkt) {
+                    return {
+                        error: 'invalid_grant',
+                        error_description: 'Device code was redeemed with another DPoP key'
+                    };
+                }
+
                 // Clean up
                 this._deviceCodes.delete(deviceCode);
                 
                 return {
-                    access_token: deviceData.sessionToken,
-                    token_type: "Bearer",
+                    access_token: this._issueAccessToken(deviceData.sessionToken, storedToken),
+                    token_type: tokenType(storedToken.dpopJkt),
                     expires_in: Math.floor((storedToken.expiresAt - Date.now()) / 1000),
-                    refresh_token: crypto.randomBytes(32).toString('hex'),
+                    refresh_token: deviceData.refreshToken,
                     scope: storedToken.scopes.join(' ')
                 };
             }
         }
         
-        // Check with GitHub if the user has authorized
+        // Polls faster than the interval are answered here instead of upstream (RFC 8628 section 3.5),
+        // and the interval grows by 5 seconds for this and every later poll
+        const now = Date.now();
+        const tooSoon = now - deviceData.lastPolledAt < deviceData.interval * 1000;
+        deviceData.lastPolledAt = now;
+        if (tooSoon) {
+            deviceData.interval += 5;
+            return {
+                error: 'slow_down',
+                error_description: 'Polling too frequently, slow down'
+            };
+        }
+
+        // Check with the upstream provider if the user has authorized
         try {
-            const response = await fetch('https://github.com/login/oauth/access_token', {
-                method: 'POST',
-                headers: {
-                    'Accept': 'application/json',
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify({
-                    client_id: process.env.GITHUB_CLIENT_ID,
-                    client_secret: process.env.GITHUB_CLIENT_SECRET,
-                    device_code: deviceData.githubDeviceCode,
-                    grant_type: 'urn:ietf:params:oauth:grant-type:device_code'
-                })
-            });
+            const result = await this._upstream.pollDeviceAuthorization(deviceData.upstreamDeviceCode);
             
-            const data = await response.json();
-            
-            // Handle GitHub response
-            if (data.error) {
+            // Handle upstream response
+            if ('error' in result) {
                 // Still pending or other error
-                if (data.error === 'authorization_pending') {
+                if (result.error === 'authorization_pending') {
                     return { 
                         error: 'authorization_pending', 
                         error_description: 'The user has not yet authorized this device'
                     };
-                } else if (data.error === 'slow_down') {
+                } else if (result.error === 'slow_down') {
+                    this._deviceCodes.set(deviceCode, {
+                        ...deviceData,
+                        interval: result.interval ?? deviceData.interval + 5
+                    });
                     return { 
                         error: 'slow_down', 
                         error_description: 'Polling too frequently, slow down'
                     };
+                } else if (result.error === 'access_denied') {
+                    auditLog.record({
+                        event: 'device.denied',
+                        outcome: 'failure',
+                        clientId: deviceData.clientId,
+                        details: { user_code_hash: hashUserCode(deviceData.userCode), reason: 'declined upstream' }
+                    });
+                    this._deviceCodes.delete(deviceCode);
+                    return { 
+                        error: 'access_denied', 
+                        error_description: 'The user denied the authorization request'
+                    };
+                } else if (result.error === 'expired_token') {
+                    this._deviceCodes.delete(deviceCode);
+                    return { 
+                        error: 'expired_token', 
+                        error_description: 'Device code has expired'
+                    };
                 } else {
+                    if (result.error === 'invalid_grant') {
+                        this._deviceCodes.delete(deviceCode);
+                    }
                     return { 
-                        error: data.error, 
-                        error_description: data.error_description || 'Error from GitHub authorization'
+                        error: result.error, 
+                        error_description: result.error_description
                     };
                 }
             }
             
             // Success! User has authorized
-            const { access_token } = data;
+            const { user, allowed } = await this._authorizeUser(result.accessToken);
+            if (!allowed) {
+                auditLog.record({
+                    event: 'device.denied',
+                    outcome: 'failure',
+                    actor: user,
+                    clientId: deviceData.clientId,
+                    details: { user_code_hash: hashUserCode(deviceData.userCode), reason: 'access policy' }
+                });
+                this._deviceCodes.delete(deviceCode);
+                return {
+                    error: 'access_denied',
+                    error_description: 'User is not allowed to access this server'
+                };
+            }
+            const scopes = deviceData.scopes;
             
             // Generate MCP session token
-            const sessionToken = tokenStore.storeToken(
-                access_token,
-                '',
-                3600, // 1 hour expiration
+            const familyId = crypto.randomBytes(16).toString('hex');
+            const sessionToken = await this._tokenStore.storeToken(
+                upstreamCredential(result),
+                this._accessTokenLifetimeSeconds,
                 deviceData.clientId,
-                ['read:user', 'user:email']
+                scopes,
+                undefined,
+                undefined,
+                familyId,
+                user,
+                deviceData.resource,
+                dpopJkt
             );
+            this._accessCheckedAt.set(familyId, Date.now());
+            const refreshToken = await this._tokenStore.issueRefreshToken(sessionToken);
+            auditLog.record({
+                event: 'device.approved',
+                outcome: 'success',
+                actor: user,
+                clientId: deviceData.clientId,
+                details: { user_code_hash: hashUserCode(deviceData.userCode) }
+            });
+            auditLog.record({
+                event: 'token.issued',
+                outcome: 'success',
+                actor: user,
+                clientId: deviceData.clientId,
+                details: { grant_type: 'device_code', scopes, resource: deviceData.resource, dpop: !!dpopJkt }
+            });
             
             // Update device code data with session token
             this._deviceCodes.set(deviceCode, {
                 ...deviceData,
-                sessionToken
+                sessionToken,
+                refreshToken
             });
             
             // Return tokens to client
             return {
-                access_token: sessionToken,
-                token_type: "Bearer",
-                expires_in: 3600,
-                refresh_token: crypto.randomBytes(32).toString('hex'),
-                scope: "read:user user:email"
+                access_token: this._issueAccessToken(sessionToken, {
+                    clientId: deviceData.clientId,
+                    scopes,
+                    expiresAt: Date.now() + this._accessTokenLifetimeSeconds * 1000,
+                    user,
+                    resource: deviceData.resource,
+                    dpopJkt
+                }),
+                token_type: tokenType(dpopJkt),
+                expires_in: this._accessTokenLifetimeSeconds,
+                refresh_token: refreshToken,
+                scope: scopes.join(' ')
             };
         } catch (error) {
-            console.error("Error checking device code status:", error);
+            logger.error("Error checking device code status", { error });
             return { 
                 error: 'server_error', 
                 error_description: 'Error checking authorization status'
             };
         }
     }
+}
+
+/**
+ * Upstream credential to store for tokens just issued by the upstream provider
+ */
+function upstreamCredential(tokens: UpstreamTokens): UpstreamCredential {
+    return {
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresAt: tokens.expiresIn ? Date.now() + tokens.expiresIn * 1000 : undefined
+    };
+}
+
+/**
+ * Audit records carry a digest of the user code rather than the code itself, which still ties together
+ * the records of one device authorization
+ */
+function hashUserCode(userCode: string): string {
+    return crypto.createHash('sha256').update(userCode).digest('hex');
+}
+
+/**
+ * Token type of an access token (RFC 9449 section 5): DPoP when it is bound to a key, Bearer otherwise
+ */
+function tokenType(dpopJkt?: string): string {
+    return dpopJkt ? "DPoP" : "Bearer";
+}
+
+/**
+ * JWT signer for tokens meant for one of the resources, with keys in keysFile (defaults to
+ * server/auth/.auth/jwt_keys.json) that rotate every keyRotationDays (defaults to 30)
+ */
+export function createJwtAccessTokenSigner(
+    issuerUrl: URL,
+    resources: string[],
+    options: { keysFile?: string, keyRotationDays?: number, maxTokenLifetimeSeconds?: number } = {}
+): JwtAccessTokenSigner {
+    return new JwtAccessTokenSigner({
+        issuer: issuerUrl.href,
+        audiences: resources,
+        keysFile: options.keysFile || DEFAULT_JWT_KEYS_FILE,
+        maxTokenLifetimeSeconds: options.maxTokenLifetimeSeconds ?? DEFAULT_ACCESS_TOKEN_LIFETIME_SECONDS,
+        keyRotationSeconds: (options.keyRotationDays ?? DEFAULT_JWT_KEY_ROTATION_DAYS) * 24 * 60 * 60
+    });
 }
\ No newline at end of file
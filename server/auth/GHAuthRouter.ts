@@ -5,17 +5,69 @@ import { authorizationHandler, AuthorizationHandlerOptions } from "@modelcontext
 import { revocationHandler, RevocationHandlerOptions } from "@modelcontextprotocol/sdk/server/auth/handlers/revoke.js";
 import { metadataHandler } from "@modelcontextprotocol/sdk/server/auth/handlers/metadata.js";
 import { OAuthServerProvider } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import { authenticateClient, ClientAuthenticator } from "./ClientAuthentication.js";
+import { introspectionHandler, TokenIntrospector } from "./IntrospectionHandler.js";
+import { AuthRateLimits, loadAuthRateLimits, rateLimitByClient } from "./RateLimits.js";
 
 export type AuthRouterOptions = {
-    provider: OAuthServerProvider;
+    provider: OAuthServerProvider & ClientAuthenticator & Partial<TokenIntrospector>;
     issuerUrl: URL;
+    // URL the router is mounted at, when it is not the issuer URL itself (e.g. http://localhost:3000/auth)
+    baseUrl?: URL;
     serviceDocumentationUrl?: URL;
+    scopesSupported?: string[];
+    // Published as jwks_uri when access tokens are JWTs
+    jwksUri?: URL;
+    // Published as dpop_signing_alg_values_supported when tokens can be bound to DPoP keys (RFC 9449 section 5.1)
+    dpopSigningAlgorithms?: string[];
+    // Per-client limit of token requests (defaults to loadAuthRateLimits); the SDK handlers also limit requests per IP address
+    rateLimits?: AuthRateLimits;
     authorizationOptions?: Omit<AuthorizationHandlerOptions, "provider">;
     clientRegistrationOptions?: Omit<ClientRegistrationHandlerOptions, "clientsStore">;
     revocationOptions?: Omit<RevocationHandlerOptions, "provider">;
     tokenOptions?: Omit<TokenHandlerOptions, "provider">;
 };
 
+/**
+ * Authorization server metadata (RFC 8414) describing the endpoints githubAuthRouter serves
+ */
+export function authorizationServerMetadata(options: AuthRouterOptions) {
+    const issuer = options.issuerUrl;
+    const base = (options.baseUrl ?? issuer).href;
+    const baseUrl = base.endsWith('/') ? base : `${base}/`;
+    const registration_endpoint = options.provider.clientsStore.registerClient ? `${baseUrl}register` : undefined;
+    const revocation_endpoint = options.provider.revokeToken ? `${baseUrl}revoke` : undefined;
+    const introspection_endpoint = options.provider.introspectToken ? `${baseUrl}introspect` : undefined;
+
+    return {
+        issuer: issuer.href,
+        service_documentation: options.serviceDocumentationUrl?.href,
+        scopes_supported: options.scopesSupported,
+
+        authorization_endpoint: `${baseUrl}authorize`,
+        response_types_supported: ["code"],
+        code_challenge_methods_supported: ["S256"],
+
+        token_endpoint: `${baseUrl}token`,
+        token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post", "none"],
+        grant_types_supported: ["authorization_code", "urn:ietf:params:oauth:grant-type:device_code", "refresh_token"],
+
+        revocation_endpoint,
+        revocation_endpoint_auth_methods_supported: revocation_endpoint ? ["client_secret_basic", "client_secret_post", "none"] : undefined,
+
+        introspection_endpoint,
+        introspection_endpoint_auth_methods_supported: introspection_endpoint ? ["client_secret_basic", "client_secret_post"] : undefined,
+
+        registration_endpoint,
+
+        device_authorization_endpoint: `${baseUrl}device/authorize`,
+
+        jwks_uri: options.jwksUri?.href,
+
+        dpop_signing_alg_values_supported: options.dpopSigningAlgorithms,
+    };
+}
+
 export function githubAuthRouter(options: AuthRouterOptions): RequestHandler {
     const issuer = options.issuerUrl;
 
@@ -33,28 +85,9 @@ export function githubAuthRouter(options: AuthRouterOptions): RequestHandler {
     const token_endpoint = "/token";
     const registration_endpoint = options.provider.clientsStore.registerClient ? "/register" : undefined;
     const revocation_endpoint = options.provider.revokeToken ? "/revoke" : undefined;
+    const introspection_endpoint = options.provider.introspectToken ? "/introspect" : undefined;
 
-    const baseUrl = issuer.href.endsWith('/') ? issuer.href : `${issuer.href}/`;
-
-    const metadata = {
-        issuer: issuer.href,
-        service_documentation: options.serviceDocumentationUrl?.href,
-
-        authorization_endpoint: `${baseUrl}authorize`,
-        response_types_supported: ["code"],
-        code_challenge_methods_supported: ["S256"],
-
-        token_endpoint: `${baseUrl}token`,
-        token_endpoint_auth_methods_supported: ["none"],
-        grant_types_supported: ["urn:ietf:params:oauth:grant-type:device_code"],
-
-        revocation_endpoint: revocation_endpoint ? `${baseUrl}revoke` : undefined,
-        revocation_endpoint_auth_methods_supported: revocation_endpoint ? ["client_secret_post"] : undefined,
-
-        registration_endpoint: registration_endpoint ? `${baseUrl}register` : undefined,
-
-        device_authorization_endpoint: `${baseUrl}device/authorize`,
-    };
+    const metadata = authorizationServerMetadata(options);
 
     const router = express.Router();
 
@@ -63,6 +96,13 @@ export function githubAuthRouter(options: AuthRouterOptions): RequestHandler {
         authorizationHandler({ provider: options.provider, ...options.authorizationOptions })
     );
 
+    // Clients are authenticated here, since the SDK handlers only know client_secret_post with plaintext secrets
+    router.post(
+        token_endpoint,
+        express.urlencoded({ extended: false }),
+        authenticateClient(options.provider),
+        rateLimitByClient((options.rateLimits ?? loadAuthRateLimits()).perClientToken, 'token')
+    );
     router.use(
         token_endpoint,
         tokenHandler({ provider: options.provider, ...options.tokenOptions })
@@ -81,11 +121,19 @@ export function githubAuthRouter(options: AuthRouterOptions): RequestHandler {
     }
 
     if (revocation_endpoint) {
+        router.post(revocation_endpoint, express.urlencoded({ extended: false }), authenticateClient(options.provider));
         router.use(
             revocation_endpoint,
             revocationHandler({ provider: options.provider, ...options.revocationOptions })
         );
     }
 
+    if (introspection_endpoint) {
+        router.use(
+            introspection_endpoint,
+            introspectionHandler({ provider: options.provider })
+        );
+    }
+
     return router;
 }
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { readFileSync } from 'fs';
+import { Agent } from 'https';
+import nodeFetch from 'node-fetch';
+import { ConfigError } from '../config.js';
+
+const GITHUB_WEB_URL = 'https://github.com';
+const GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * What the GitHub clients need from fetch; both the global fetch and node-fetch provide it
+ */
+export type GitHubFetch = (url: URL, init?: { method?: string, headers?: Record<string, string>, body?: string }) => Promise<{
+    ok: boolean;
+    status: number;
+    statusText: string;
+    json(): Promise<unknown>;
+    text(): Promise<string>;
+}>;
+
+export interface GitHubEndpointsOptions {
+    // Where users sign in and the OAuth endpoints live: https://github.com, or the GitHub Enterprise Server URL
+    webUrl?: string | URL;
+    // REST API base: https://api.github.com for github.com, <webUrl>/api/v3 for GitHub Enterprise Server
+    apiUrl?: string | URL;
+    // PEM bundle of the certificate authorities to trust instead of Node's, for servers with self-signed certificates
+    caFile?: string;
+}
+
+/**
+ * Base URLs of a GitHub instance, github.com or GitHub Enterprise Server (GHES), and the fetch to call it with
+ */
+export class GitHubEndpoints {
+    readonly webUrl: URL;
+    readonly apiUrl: URL;
+    readonly fetch: GitHubFetch;
+
+    constructor(options: GitHubEndpointsOptions = {}) {
+        this.webUrl = withTrailingSlash(new URL(options.webUrl ?? GITHUB_WEB_URL));
+        this.apiUrl = withTrailingSlash(new URL(options.apiUrl
+            ?? (this.webUrl.hostname === 'github.com' ? GITHUB_API_URL : new URL('api/v3', this.webUrl))));
+
+        if (options.caFile) {
+            let ca: Buffer;
+            try {
+                ca = readFileSync(options.caFile);
+            } catch (error) {
+                throw new ConfigError(`Cannot read GitHub CA bundle ${options.caFile}: ${error instanceof Error ? error.message : error}`);
+            }
+            // The global fetch cannot be given certificate authorities, so requests go through node-fetch with an agent that has them
+            const agent = new Agent({ ca });
+            this.fetch = (url, init) => nodeFetch(url, { ...init, agent });
+        } else {
+            this.fetch = (url, init) => fetch(url, init);
+        }
+    }
+
+    /**
+     * URL on the GitHub web host, e.g. web('login/device/code')
+     */
+    web(path: string): URL {
+        return new URL(path, this.webUrl);
+    }
+
+    /**
+     * URL of a REST API endpoint, e.g. api('user')
+     */
+    api(path: string): URL {
+        return new URL(path, this.apiUrl);
+    }
+}
+
+/**
+ * Endpoints from GITHUB_URL, GITHUB_API_URL and GITHUB_CA_FILE, or github.com
+ */
+export function loadGitHubEndpoints(env: NodeJS.ProcessEnv = process.env): GitHubEndpoints {
+    return new GitHubEndpoints({
+        webUrl: env.GITHUB_URL || undefined,
+        apiUrl: env.GITHUB_API_URL || undefined,
+        caFile: env.GITHUB_CA_FILE || undefined,
+    });
+}
+
+// Relative paths resolve below the base only when it ends with a slash (https://ghes/api/v3/ + user)
+function withTrailingSlash(url: URL): URL {
+    if (!url.pathname.endsWith('/')) {
+        url.pathname += '/';
+    }
+    return url;
+}
@@ -0,0 +1,301 @@
+import {
+    UpstreamDeviceAuthorization,
+    UpstreamIdentityProvider,
+    UpstreamPollError,
+    UpstreamRefreshError,
+    UpstreamTokens,
+    UpstreamUserInfo
+} from './UpstreamIdentityProvider.js';
+import { z } from 'zod';
+import { GitHubEndpoints } from './GHEndpoints.js';
+import { createLogger } from '../../shared/logger.js';
+
+const logger = createLogger('auth.upstream');
+
+export const DEFAULT_GITHUB_SCOPES = ['read:user', 'user:email'];
+
+const GitHubDeviceCodeSchema = z.object({
+    device_code: z.string(),
+    user_code: z.string(),
+    verification_uri: z.string(),
+    expires_in: z.number(),
+    interval: z.number()
+});
+
+// The token endpoint answers errors with 200 and an error field, so every field is optional
+const GitHubTokenResponseSchema = z.object({
+    access_token: z.string().optional(),
+    refresh_token: z.string().optional(),
+    expires_in: z.number().optional(),
+    scope: z.string().optional(),
+    interval: z.number().optional(),
+    error: z.string().optional(),
+    error_description: z.string().optional()
+});
+
+const GitHubUserSchema = z.object({
+    id: z.number(),
+    login: z.string(),
+    email: z.string().nullish(),
+    name: z.string().nullish()
+});
+
+const GitHubEmailsSchema = z.array(z.object({ email: z.string(), primary: z.boolean(), verified: z.boolean() }));
+
+/**
+ * Tokens from a successful token response
+ */
+function upstreamTokens(data: z.infer<typeof GitHubTokenResponseSchema>): UpstreamTokens {
+    if (!data.access_token) {
+        throw new Error('GitHub token response has no access_token');
+    }
+    return {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token,
+        expiresIn: data.expires_in,
+        scope: data.scope
+    };
+}
+
+export interface GitHubIdentityProviderOptions {
+    clientId: string;
+    clientSecret: string;
+    scopes?: string[];
+    // GitHub instance to sign in with (defaults to github.com)
+    endpoints?: GitHubEndpoints;
+}
+
+/**
+ * GitHub OAuth app as the upstream identity provider
+ * (device flow must be enabled, and the callback URL must match the server's /auth/callback for browser clients)
+ */
+export class GitHubIdentityProvider implements UpstreamIdentityProvider {
+    readonly name = 'github';
+    readonly scopes: string[];
+    readonly endpoints: GitHubEndpoints;
+    private _clientId: string;
+    private _clientSecret: string;
+
+    constructor(options: GitHubIdentityProviderOptions) {
+        this._clientId = options.clientId;
+        this._clientSecret = options.clientSecret;
+        this.scopes = options.scopes ?? DEFAULT_GITHUB_SCOPES;
+        this.endpoints = options.endpoints ?? new GitHubEndpoints();
+    }
+
+    async startDeviceAuthorization(): Promise<UpstreamDeviceAuthorization> {
+        const response = await this.endpoints.fetch(this.endpoints.web('login/device/code'), {
+            method: 'POST',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                client_id: this._clientId,
+                scope: this.scopes.join(' ')
+            })
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            logger.error('GitHub error response', {
+                status: response.status,
+                statusText: response.statusText,
+                body: errorText
+            });
+            throw new Error(`GitHub device code request failed: ${response.status} ${response.statusText}\n${errorText}`);
+        }
+
+        const data = GitHubDeviceCodeSchema.parse(await response.json());
+        return {
+            deviceCode: data.device_code,
+            userCode: data.user_code,
+            verificationUri: data.verification_uri,
+            expiresIn: data.expires_in,
+            interval: data.interval
+        };
+    }
+
+    async pollDeviceAuthorization(deviceCode: string): Promise<UpstreamTokens | UpstreamPollError> {
+        const response = await this.endpoints.fetch(this.endpoints.web('login/oauth/access_token'), {
+            method: 'POST',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                client_id: this._clientId,
+                client_secret: this._clientSecret,
+                device_code: deviceCode,
+                grant_type: 'urn:ietf:params:oauth:grant-type:device_code'
+            })
+        });
+
+        const data = GitHubTokenResponseSchema.parse(await response.json());
+
+        // GitHub answers 200 with an error field while the device is pending
+        if (data.error) {
+            switch (data.error) {
+                case 'authorization_pending':
+                case 'slow_down':
+                case 'access_denied':
+                case 'expired_token':
+                    return {
+                        error: data.error,
+                        error_description: data.error_description || 'Error from GitHub authorization',
+                        interval: data.interval
+                    };
+                case 'incorrect_device_code':
+                    return {
+                        error: 'invalid_grant',
+                        error_description: 'Device code not recognized by GitHub'
+                    };
+                default:
+                    // Remaining GitHub errors (bad app credentials, device flow disabled) are our misconfiguration
+                    logger.error("GitHub device flow error", { response: data });
+                    return {
+                        error: 'server_error',
+                        error_description: data.error_description || 'Error from GitHub authorization'
+                    };
+            }
+        }
+
+        return upstreamTokens(data);
+    }
+
+    async authorizationUrl({ redirectUri, state, codeChallenge }: { redirectUri: string; state: string; codeChallenge: string }): Promise<URL> {
+        const url = this.endpoints.web('login/oauth/authorize');
+        url.searchParams.set('client_id', this._clientId);
+        url.searchParams.set('redirect_uri', redirectUri);
+        url.searchParams.set('scope', this.scopes.join(' '));
+        url.searchParams.set('state', state);
+        url.searchParams.set('code_challenge', codeChallenge);
+        url.searchParams.set('code_challenge_method', 'S256');
+        return url;
+    }
+
+    async exchangeAuthorizationCode(code: string, redirectUri: string, codeVerifier: string): Promise<UpstreamTokens> {
+        const response = await this.endpoints.fetch(this.endpoints.web('login/oauth/access_token'), {
+            method: 'POST',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                client_id: this._clientId,
+                client_secret: this._clientSecret,
+                code,
+                redirect_uri: redirectUri,
+                code_verifier: codeVerifier
+            })
+        });
+
+        const data = GitHubTokenResponseSchema.parse(await response.json());
+
+        if (!response.ok || data.error) {
+            throw new Error(`GitHub code exchange failed: ${data.error_description || data.error || response.status}`);
+        }
+
+        return upstreamTokens(data);
+    }
+
+    /**
+     * User tokens of GitHub Apps with expiring tokens last 8 hours and come with a single-use refresh token
+     */
+    async refreshAccessToken(refreshToken: string): Promise<UpstreamTokens | UpstreamRefreshError> {
+        const response = await this.endpoints.fetch(this.endpoints.web('login/oauth/access_token'), {
+            method: 'POST',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({
+                client_id: this._clientId,
+                client_secret: this._clientSecret,
+                grant_type: 'refresh_token',
+                refresh_token: refreshToken
+            })
+        });
+
+        if (!response.ok) {
+            throw new Error(`GitHub token refresh failed: ${response.status} ${response.statusText}`);
+        }
+
+        const data = GitHubTokenResponseSchema.parse(await response.json());
+
+        // Like the device flow, GitHub answers 200 with an error field
+        if (data.error === 'bad_refresh_token') {
+            return {
+                error: 'invalid_grant',
+                error_description: data.error_description || 'GitHub refused the refresh token'
+            };
+        }
+        if (data.error) {
+            // Bad app credentials or an app without expiring tokens are our misconfiguration, not the user's
+            throw new Error(`GitHub token refresh failed: ${data.error_description || data.error}`);
+        }
+
+        return upstreamTokens(data);
+    }
+
+    async getUserInfo(accessToken: string): Promise<UpstreamUserInfo> {
+        const response = await this.endpoints.fetch(this.endpoints.api('user'), {
+            headers: {
+                'Accept': 'application/vnd.github+json',
+                'Authorization': `Bearer ${accessToken}`
+            }
+        });
+
+        if (!response.ok) {
+            throw new Error(`GitHub user request failed: ${response.status} ${response.statusText}`);
+        }
+
+        const user = GitHubUserSchema.parse(await response.json());
+        return {
+            id: String(user.id),
+            username: user.login,
+            email: user.email ?? await this._getPrimaryEmail(accessToken),
+            name: user.name ?? undefined
+        };
+    }
+
+    /**
+     * Primary verified email of a user who keeps their profile email private (needs the user:email scope)
+     */
+    private async _getPrimaryEmail(accessToken: string): Promise<string | undefined> {
+        const response = await this.endpoints.fetch(this.endpoints.api('user/emails'), {
+            headers: {
+                'Accept': 'application/vnd.github+json',
+                'Authorization': `Bearer ${accessToken}`
+            }
+        });
+
+        // Tokens granted without user:email cannot list emails
+        if (!response.ok) {
+            return undefined;
+        }
+
+        const emails = GitHubEmailsSchema.parse(await response.json());
+        return emails.find(email => email.primary && email.verified)?.email;
+    }
+
+    async revokeToken(accessToken: string): Promise<void> {
+        const credentials = Buffer.from(`${this._clientId}:${this._clientSecret}`).toString('base64');
+
+        const response = await this.endpoints.fetch(this.endpoints.api(`applications/${encodeURIComponent(this._clientId)}/token`), {
+            method: 'DELETE',
+            headers: {
+                'Accept': 'application/vnd.github+json',
+                'Authorization': `Basic ${credentials}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ access_token: accessToken })
+        });
+
+        // GitHub answers 404 for tokens it has already forgotten, which is fine here
+        if (!response.ok && response.status !== 404) {
+            const errorText = await response.text();
+            throw new Error(`GitHub token revocation failed: ${response.status} ${response.statusText}\n${errorText}`);
+        }
+    }
+}
@@ -0,0 +1,75 @@
+import express, { RequestHandler } from "express";
+import { allowedMethods } from "@modelcontextprotocol/sdk/server/auth/middleware/allowedMethods.js";
+import { InvalidClientError, InvalidRequestError, OAuthError, ServerError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { authenticateClient, ClientAuthenticator } from "./ClientAuthentication.js";
+import { createLogger } from "../../shared/logger.js";
+
+const logger = createLogger("auth.introspection");
+
+/**
+ * Introspection response (RFC 7662 section 2.2). Inactive tokens are described by { active: false } alone.
+ */
+export interface TokenIntrospectionResponse {
+    active: boolean;
+    client_id?: string;
+    // Resource the token is bound to
+    aud?: string;
+    scope?: string;
+    // Seconds since epoch
+    exp?: number;
+    // Upstream user ID
+    sub?: string;
+    // Upstream login
+    username?: string;
+    token_type?: string;
+    // DPoP key the token is bound to (RFC 9449 section 6.2)
+    cnf?: { jkt: string };
+}
+
+export interface TokenIntrospector {
+    introspectToken(token: string, tokenTypeHint?: string): Promise<TokenIntrospectionResponse>;
+}
+
+export type IntrospectionHandlerOptions = {
+    provider: Partial<TokenIntrospector> & ClientAuthenticator;
+};
+
+/**
+ * Token introspection endpoint (RFC 7662) for resource servers checking the bearer tokens they receive.
+ * Callers authenticate as confidential clients; tokens issued to any client can be introspected.
+ */
+export function introspectionHandler({ provider }: IntrospectionHandlerOptions): RequestHandler {
+    const { introspectToken } = provider;
+    if (!introspectToken) {
+        throw new Error("Auth provider does not support token introspection");
+    }
+
+    const router = express.Router();
+    router.use(allowedMethods(["POST"]));
+    router.use(express.urlencoded({ extended: false }));
+    // Public clients have no credentials, so anyone could claim to be one
+    router.use(authenticateClient(provider, { requireSecret: true }));
+
+    router.post("/", async (req, res) => {
+        res.setHeader('Cache-Control', 'no-store');
+        try {
+            const { token, token_type_hint } = req.body;
+            if (typeof token !== 'string' || !token) {
+                throw new InvalidRequestError("Missing token parameter");
+            }
+
+            res.status(200).json(await introspectToken.call(provider, token, typeof token_type_hint === 'string' ? token_type_hint : undefined));
+        } catch (error) {
+            if (error instanceof InvalidClientError) {
+                res.status(401).json(error.toResponseObject());
+            } else if (error instanceof OAuthError && !(error instanceof ServerError)) {
+                res.status(400).json(error.toResponseObject());
+            } else {
+                logger.error("Unexpected error introspecting token", { error });
+                res.status(500).json(new ServerError("Internal Server Error").toResponseObject());
+            }
+        }
+    });
+
+    return router;
+}
@@ -0,0 +1,236 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, JsonWebKey, KeyObject, randomBytes, sign, verify } from 'crypto';
+import { chmodSync, existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { InvalidTokenError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { createLogger } from '../../shared/logger.js';
+
+const logger = createLogger('auth.jwt');
+
+const JWT_ALGORITHM = 'ES256';
+// Media type of JWT access tokens (RFC 9068 section 2.1)
+const JWT_ACCESS_TOKEN_TYPE = 'at+jwt';
+const DEFAULT_KEY_ROTATION_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+/**
+ * Claims of a JWT access token (RFC 9068 section 2.2)
+ */
+export interface AccessTokenClaims {
+    iss: string;
+    sub: string;
+    aud: string | string[];
+    exp: number;
+    iat: number;
+    jti: string;
+    client_id: string;
+    scope: string;
+    // Identity of the signed-in user (RFC 9068 section 2.2.3.1)
+    preferred_username?: string;
+    email?: string;
+    name?: string;
+    // DPoP key the token is bound to (RFC 9449 section 6.1)
+    cnf?: { jkt: string };
+}
+
+interface SigningKey {
+    kid: string;
+    // Milliseconds since epoch
+    createdAt: number;
+    // Set when a newer key took over; the key stays published until tokens it signed have expired
+    retiredAt?: number;
+    privateKey: JsonWebKey;
+}
+
+export interface JwtAccessTokenSignerOptions {
+    // Value of the iss claim, the authorization server's issuer URL
+    issuer: string;
+    // Accepted values of the aud claim: the resources (RFC 8707) tokens are issued for
+    audiences: string[];
+    // JSON file holding the signing keys, created on first use
+    keysFile: string;
+    // Longest lifetime of the access tokens signed, so retired keys are published for as long as they are needed
+    maxTokenLifetimeSeconds: number;
+    // How long a key signs new tokens before a new one is generated
+    keyRotationSeconds?: number;
+}
+
+/**
+ * Whether a bearer token is a JWT (three base64url segments) rather than an opaque session token
+ */
+export const isJwt = (token: string): boolean => /^[\w-]+\.[\w-]+\.[\w-]+$/.test(token);
+
+/**
+ * Signs and verifies JWT access tokens (RFC 9068) with ES256 keys that rotate on a schedule.
+ *
+ * Keys are kept in a JSON file (readable by the server only) so tokens stay valid across restarts.
+ * Retired keys remain in the JWKS until every token they signed has expired, so resource servers
+ * that cache the JWKS can keep validating tokens after a rotation.
+ */
+export class JwtAccessTokenSigner {
+    private _issuer: string;
+    private _audiences: string[];
+    private _keysFile: string;
+    private _maxTokenLifetimeMs: number;
+    private _keyRotationMs: number;
+    private _keys: SigningKey[];
+    private _privateKeys: Map<string, KeyObject> = new Map();
+    private _publicKeys: Map<string, KeyObject> = new Map();
+
+    constructor(options: JwtAccessTokenSignerOptions) {
+        this._issuer = options.issuer;
+        this._audiences = options.audiences;
+        this._keysFile = options.keysFile;
+        this._maxTokenLifetimeMs = options.maxTokenLifetimeSeconds * 1000;
+        this._keyRotationMs = (options.keyRotationSeconds ?? DEFAULT_KEY_ROTATION_SECONDS) * 1000;
+
+        this._keys = existsSync(this._keysFile)
+            ? JSON.parse(readFileSync(this._keysFile, 'utf8')).keys
+            : [];
+        for (const key of this._keys) {
+            this._loadKey(key);
+        }
+        this._rotateKeys();
+    }
+
+    /**
+     * Public keys for verifying tokens, served at /.well-known/jwks.json
+     */
+    get jwks(): { keys: JsonWebKey[] } {
+        this._rotateKeys();
+        return {
+            keys: this._keys.map(key => ({
+                ...this._publicKeys.get(key.kid)!.export({ format: 'jwk' }),
+                kid: key.kid,
+                alg: JWT_ALGORITHM,
+                use: 'sig'
+            }))
+        };
+    }
+
+    /**
+     * Sign an access token. iss, iat and jti are filled in.
+     */
+    sign(claims: Omit<AccessTokenClaims, 'iss' | 'iat' | 'jti'>): string {
+        this._rotateKeys();
+        const activeKey = this._keys[this._keys.length - 1];
+
+        const header = { alg: JWT_ALGORITHM, typ: JWT_ACCESS_TOKEN_TYPE, kid: activeKey.kid };
+        const payload: AccessTokenClaims = {
+            iss: this._issuer,
+            iat: Math.floor(Date.now() / 1000),
+            jti: randomBytes(16).toString('hex'),
+            ...claims
+        };
+
+        const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+        const signature = sign('sha256', Buffer.from(signingInput), {
+            key: this._privateKeys.get(activeKey.kid)!,
+            dsaEncoding: 'ieee-p1363'
+        });
+        return `${signingInput}.${signature.toString('base64url')}`;
+    }
+
+    /**
+     * Check the signature, type, issuer, audience and expiry of an access token and return its claims
+     */
+    verify(token: string): AccessTokenClaims {
+        const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+        let header: { alg?: string, typ?: string, kid?: string };
+        let claims: AccessTokenClaims;
+        try {
+            header = decodeSegment(encodedHeader);
+            claims = decodeSegment(encodedPayload);
+        } catch {
+            throw new InvalidTokenError("Malformed access token");
+        }
+
+        if (header.alg !== JWT_ALGORITHM || header.typ?.toLowerCase() !== JWT_ACCESS_TOKEN_TYPE) {
+            throw new InvalidTokenError("Unsupported access token type");
+        }
+        const publicKey = header.kid ? this._publicKeys.get(header.kid) : undefined;
+        if (!publicKey) {
+            throw new InvalidTokenError("Access token was signed with an unknown key");
+        }
+        const signatureValid = verify(
+            'sha256',
+            Buffer.from(`${encodedHeader}.${encodedPayload}`),
+            { key: publicKey, dsaEncoding: 'ieee-p1363' },
+            Buffer.from(encodedSignature, 'base64url')
+        );
+        if (!signatureValid) {
+            throw new InvalidTokenError("Invalid access token signature");
+        }
+
+        if (claims.iss !== this._issuer) {
+            throw new InvalidTokenError("Access token was issued by another issuer");
+        }
+        const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+        if (!audiences.some(audience => this._audiences.includes(audience))) {
+            throw new InvalidTokenError("Access token is not meant for a resource of this server");
+        }
+        if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+            throw new InvalidTokenError("Token has expired");
+        }
+
+        return claims;
+    }
+
+    private _loadKey(key: SigningKey): void {
+        const privateKey = createPrivateKey({ key: key.privateKey, format: 'jwk' });
+        this._privateKeys.set(key.kid, privateKey);
+        this._publicKeys.set(key.kid, createPublicKey(privateKey));
+    }
+
+    /**
+     * Generate a new active key once the current one is due, and drop retired keys no token can still need
+     */
+    private _rotateKeys(): void {
+        const now = Date.now();
+        let changed = false;
+
+        const expired = this._keys.filter(key => key.retiredAt && key.retiredAt + this._maxTokenLifetimeMs < now);
+        if (expired.length > 0) {
+            this._keys = this._keys.filter(key => !expired.includes(key));
+            for (const key of expired) {
+                this._privateKeys.delete(key.kid);
+                this._publicKeys.delete(key.kid);
+            }
+            changed = true;
+        }
+
+        const activeKey = this._keys[this._keys.length - 1];
+        if (!activeKey || activeKey.createdAt + this._keyRotationMs < now) {
+            if (activeKey) {
+                activeKey.retiredAt = now;
+            }
+            const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+            const key: SigningKey = {
+                kid: randomBytes(8).toString('hex'),
+                createdAt: now,
+                privateKey: privateKey.export({ format: 'jwk' })
+            };
+            this._keys.push(key);
+            this._loadKey(key);
+            logger.info(`Generated JWT signing key ${key.kid}`);
+            changed = true;
+        }
+
+        if (changed) {
+            this._saveKeys();
+        }
+    }
+
+    private _saveKeys(): void {
+        mkdirSync(path.dirname(this._keysFile), { recursive: true });
+        writeFileSync(this._keysFile, JSON.stringify({ keys: this._keys }, null, 2), { mode: 0o600 });
+        // The mode only applies when the file is created
+        chmodSync(this._keysFile, 0o600);
+    }
+}
+
+function encodeSegment(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+function decodeSegment<T>(segment: string): T {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+}
@@ -0,0 +1,346 @@
+import {
+    UpstreamDeviceAuthorization,
+    UpstreamIdentityProvider,
+    UpstreamPollError,
+    UpstreamRefreshError,
+    UpstreamTokens,
+    UpstreamUserInfo
+} from './UpstreamIdentityProvider.js';
+import { z } from 'zod';
+import { ServerError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { createLogger } from '../../shared/logger.js';
+
+const logger = createLogger('auth.upstream');
+
+export interface OIDCIdentityProviderOptions {
+    // e.g. https://accounts.google.com or https://login.microsoftonline.com/<tenant>/v2.0
+    issuer: string;
+    clientId: string;
+    // Omit for public clients (Entra ID public client apps do not use a secret for device flow)
+    clientSecret?: string;
+    scopes?: string[];
+}
+
+const OIDCDiscoveryDocumentSchema = z.object({
+    issuer: z.string(),
+    authorization_endpoint: z.string(),
+    token_endpoint: z.string(),
+    device_authorization_endpoint: z.string().optional(),
+    userinfo_endpoint: z.string().optional(),
+    revocation_endpoint: z.string().optional()
+});
+
+type OIDCDiscoveryDocument = z.infer<typeof OIDCDiscoveryDocumentSchema>;
+
+const OIDCDeviceAuthorizationSchema = z.object({
+    device_code: z.string(),
+    user_code: z.string(),
+    verification_uri: z.string().optional(),
+    // Google still uses the draft name verification_url
+    verification_url: z.string().optional(),
+    verification_uri_complete: z.string().optional(),
+    expires_in: z.number(),
+    interval: z.number().optional()
+});
+
+// Errors come with an error field instead of tokens, so every field is optional
+const OIDCTokenResponseSchema = z.object({
+    access_token: z.string().optional(),
+    refresh_token: z.string().optional(),
+    expires_in: z.number().optional(),
+    scope: z.string().optional(),
+    interval: z.number().optional(),
+    error: z.string().optional(),
+    error_description: z.string().optional()
+});
+
+const OIDCUserInfoSchema = z.object({
+    sub: z.string(),
+    preferred_username: z.string().optional(),
+    email: z.string().optional(),
+    name: z.string().optional()
+});
+
+/**
+ * Body of a provider response, checked against its schema. A body that is not JSON or does not match it
+ * means the provider misbehaved, which clients see as a server_error.
+ */
+async function parseResponse<T extends z.ZodTypeAny>(response: Response, schema: T, description: string): Promise<z.infer<T>> {
+    let body: unknown;
+    try {
+        body = await response.json();
+    } catch {
+        throw new ServerError(`${description}: response is not JSON (HTTP ${response.status})`);
+    }
+    const result = schema.safeParse(body);
+    if (!result.success) {
+        throw new ServerError(`${description}: unexpected response (HTTP ${response.status}): ${result.error.message}`);
+    }
+    return result.data;
+}
+
+/**
+ * Tokens from a successful token response
+ */
+function upstreamTokens(data: z.infer<typeof OIDCTokenResponseSchema>): UpstreamTokens {
+    if (!data.access_token) {
+        throw new ServerError('OIDC token response has no access_token');
+    }
+    return {
+        accessToken: data.access_token,
+        refreshToken: data.refresh_token,
+        expiresIn: data.expires_in,
+        scope: data.scope
+    };
+}
+
+// Standard device flow errors are passed through, anything else means the provider is misconfigured
+const DEVICE_FLOW_ERRORS = ['authorization_pending', 'slow_down', 'access_denied', 'expired_token', 'invalid_grant'];
+
+/**
+ * Any OpenID Connect provider that supports the device authorization grant (Entra ID, Google, Keycloak, ...).
+ * Endpoints are read from the provider's discovery document.
+ */
+export class OIDCIdentityProvider implements UpstreamIdentityProvider {
+    readonly name = 'oidc';
+    readonly scopes: string[];
+    private _issuer: string;
+    private _clientId: string;
+    private _clientSecret?: string;
+    private _discovery?: Promise<OIDCDiscoveryDocument>;
+
+    constructor(options: OIDCIdentityProviderOptions) {
+        this._issuer = options.issuer.replace(/\/$/, '');
+        this._clientId = options.clientId;
+        this._clientSecret = options.clientSecret;
+        this.scopes = options.scopes ?? ['openid', 'profile', 'email'];
+    }
+
+    /**
+     * Fetch the discovery document once; a failed fetch is retried on the next call
+     */
+    private _discover(): Promise<OIDCDiscoveryDocument> {
+        if (!this._discovery) {
+            this._discovery = (async () => {
+                const response = await fetch(`${this._issuer}/.well-known/openid-configuration`, {
+                    headers: { 'Accept': 'application/json' }
+                });
+                if (!response.ok) {
+                    throw new Error(`OIDC discovery failed: ${response.status} ${response.statusText}`);
+                }
+                const document = await parseResponse(response, OIDCDiscoveryDocumentSchema, 'OIDC discovery');
+                if (!document.device_authorization_endpoint) {
+                    throw new Error(`OIDC provider ${this._issuer} does not support the device authorization grant`);
+                }
+                return document;
+            })();
+            this._discovery.catch(() => {
+                this._discovery = undefined;
+            });
+        }
+        return this._discovery;
+    }
+
+    private _clientParams(): Record<string, string> {
+        return this._clientSecret
+            ? { client_id: this._clientId, client_secret: this._clientSecret }
+            : { client_id: this._clientId };
+    }
+
+    async startDeviceAuthorization(): Promise<UpstreamDeviceAuthorization> {
+        const discovery = await this._discover();
+
+        const response = await fetch(discovery.device_authorization_endpoint!, {
+            method: 'POST',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: new URLSearchParams({
+                ...this._clientParams(),
+                scope: this.scopes.join(' ')
+            }).toString()
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`OIDC device authorization request failed: ${response.status} ${response.statusText}\n${errorText}`);
+        }
+
+        const data = await parseResponse(response, OIDCDeviceAuthorizationSchema, 'OIDC device authorization');
+        const verificationUri = data.verification_uri ?? data.verification_url;
+        if (!verificationUri) {
+            throw new ServerError('OIDC device authorization response has no verification_uri');
+        }
+        return {
+            deviceCode: data.device_code,
+            userCode: data.user_code,
+            verificationUri,
+            verificationUriComplete: data.verification_uri_complete,
+            expiresIn: data.expires_in,
+            interval: data.interval ?? 5
+        };
+    }
+
+    async pollDeviceAuthorization(deviceCode: string): Promise<UpstreamTokens | UpstreamPollError> {
+        const discovery = await this._discover();
+
+        const response = await fetch(discovery.token_endpoint, {
+            method: 'POST',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: new URLSearchParams({
+                ...this._clientParams(),
+                device_code: deviceCode,
+                grant_type: 'urn:ietf:params:oauth:grant-type:device_code'
+            }).toString()
+        });
+
+        const data = await parseResponse(response, OIDCTokenResponseSchema, 'OIDC device token');
+
+        if (data.error) {
+            if (DEVICE_FLOW_ERRORS.includes(data.error)) {
+                return {
+                    error: data.error,
+                    error_description: data.error_description || 'Error from OIDC authorization',
+                    interval: data.interval
+                };
+            }
+            logger.error("OIDC device flow error", { response: data });
+            return {
+                error: 'server_error',
+                error_description: data.error_description || 'Error from OIDC authorization'
+            };
+        }
+
+        return upstreamTokens(data);
+    }
+
+    async authorizationUrl({ redirectUri, state, codeChallenge }: { redirectUri: string; state: string; codeChallenge: string }): Promise<URL> {
+        const discovery = await this._discover();
+
+        const url = new URL(discovery.authorization_endpoint);
+        url.searchParams.set('response_type', 'code');
+        url.searchParams.set('client_id', this._clientId);
+        url.searchParams.set('redirect_uri', redirectUri);
+        url.searchParams.set('scope', this.scopes.join(' '));
+        url.searchParams.set('state', state);
+        url.searchParams.set('code_challenge', codeChallenge);
+        url.searchParams.set('code_challenge_method', 'S256');
+        return url;
+    }
+
+    async exchangeAuthorizationCode(code: string, redirectUri: string, codeVerifier: string): Promise<UpstreamTokens> {
+        const discovery = await this._discover();
+
+        const response = await fetch(discovery.token_endpoint, {
+            method: 'POST',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: new URLSearchParams({
+                ...this._clientParams(),
+                grant_type: 'authorization_code',
+                code,
+                redirect_uri: redirectUri,
+                code_verifier: codeVerifier
+            }).toString()
+        });
+
+        const data = await parseResponse(response, OIDCTokenResponseSchema, 'OIDC code exchange');
+
+        if (!response.ok || data.error) {
+            throw new Error(`OIDC code exchange failed: ${data.error_description || data.error || response.status}`);
+        }
+
+        return upstreamTokens(data);
+    }
+
+    async refreshAccessToken(refreshToken: string): Promise<UpstreamTokens | UpstreamRefreshError> {
+        const discovery = await this._discover();
+
+        const response = await fetch(discovery.token_endpoint, {
+            method: 'POST',
+            headers: {
+                'Accept': 'application/json',
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: new URLSearchParams({
+                ...this._clientParams(),
+                grant_type: 'refresh_token',
+                refresh_token: refreshToken
+            }).toString()
+        });
+
+        const data = await parseResponse(response, OIDCTokenResponseSchema, 'OIDC token refresh');
+
+        if (data.error === 'invalid_grant') {
+            return {
+                error: 'invalid_grant',
+                error_description: data.error_description || 'OIDC provider refused the refresh token'
+            };
+        }
+        if (!response.ok || data.error) {
+            throw new Error(`OIDC token refresh failed: ${data.error_description || data.error || response.status}`);
+        }
+
+        // Providers that do not rotate refresh tokens keep accepting the one sent
+        const tokens = upstreamTokens(data);
+        return { ...tokens, refreshToken: tokens.refreshToken ?? refreshToken };
+    }
+
+    async getUserInfo(accessToken: string): Promise<UpstreamUserInfo> {
+        const discovery = await this._discover();
+        if (!discovery.userinfo_endpoint) {
+            throw new Error(`OIDC provider ${this._issuer} does not publish a userinfo endpoint`);
+        }
+
+        const response = await fetch(discovery.userinfo_endpoint, {
+            headers: {
+                'Accept': 'application/json',
+                'Authorization': `Bearer ${accessToken}`
+            }
+        });
+
+        if (!response.ok) {
+            throw new Error(`OIDC userinfo request failed: ${response.status} ${response.statusText}`);
+        }
+
+        const claims = await parseResponse(response, OIDCUserInfoSchema, 'OIDC userinfo');
+        return {
+            id: claims.sub,
+            username: claims.preferred_username ?? claims.email ?? claims.sub,
+            email: claims.email,
+            name: claims.name
+        };
+    }
+
+    async revokeToken(accessToken: string): Promise<void> {
+        const discovery = await this._discover();
+        if (!discovery.revocation_endpoint) {
+            // Entra ID, for one, has no revocation endpoint; its tokens simply expire
+            logger.warn(`OIDC provider ${this._issuer} does not support token revocation`);
+            return;
+        }
+
+        const response = await fetch(discovery.revocation_endpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded'
+            },
+            body: new URLSearchParams({
+                ...this._clientParams(),
+                token: accessToken,
+                token_type_hint: 'access_token'
+            }).toString()
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            throw new Error(`OIDC token revocation failed: ${response.status} ${response.statusText}\n${errorText}`);
+        }
+    }
+}
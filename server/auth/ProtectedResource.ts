@@ -0,0 +1,128 @@
+import express, { RequestHandler } from "express";
+import { OAuthServerProvider } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import { allowedMethods } from "@modelcontextprotocol/sdk/server/auth/middleware/allowedMethods.js";
+import { InsufficientScopeError, InvalidTokenError, OAuthError, ServerError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+// Declares req.auth, which the MCP transports pass to handlers
+import "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { DPOP_SIGNING_ALGORITHMS, dpopRequestUrl, DPoPProofVerifier, InvalidDPoPProofError, UseDPoPNonceError } from "./DPoP.js";
+import { createLogger } from "../../shared/logger.js";
+
+const logger = createLogger("auth.resource");
+
+/**
+ * Protected resource metadata (RFC 9728 section 2)
+ */
+export interface ProtectedResourceMetadata {
+    resource: string;
+    authorization_servers: string[];
+    scopes_supported?: string[];
+    bearer_methods_supported?: string[];
+    resource_documentation?: string;
+    // Algorithms accepted in DPoP proofs, when DPoP-bound tokens are accepted (RFC 9728 section 2)
+    dpop_signing_alg_values_supported?: string[];
+}
+
+/**
+ * Serves protected resource metadata, which tells clients where to obtain tokens for the resource
+ */
+export function protectedResourceMetadataHandler(metadata: ProtectedResourceMetadata): RequestHandler {
+    const router = express.Router();
+    router.use(allowedMethods(["GET"]));
+    router.get("/", (req, res) => {
+        // Read by web-based MCP clients as well
+        res.setHeader('Access-Control-Allow-Origin', '*');
+        res.status(200).json(metadata);
+    });
+    return router;
+}
+
+export interface BearerAuthOptions {
+    provider: Pick<OAuthServerProvider, "verifyAccessToken">;
+    // Where clients find the resource's metadata, advertised in every challenge (RFC 9728 section 5.1)
+    resourceMetadataUrl: URL;
+    // Tokens bound to another resource (RFC 8707) are rejected; tokens issued before resources were recorded are not bound
+    resource?: URL;
+    // Tokens must carry at least one of these scopes, or the request is refused with 403 insufficient_scope
+    acceptedScopes?: string[];
+    // Scopes a client should request to access the resource, advertised in challenges
+    challengeScopes?: string[];
+    // Accepts DPoP-bound tokens (RFC 9449 section 7) with proofs checked by this verifier; without it only bearer tokens are accepted
+    dpop?: DPoPProofVerifier;
+}
+
+/**
+ * Requires a valid Bearer token, like the SDK middleware, but answers with a full challenge (RFC 6750 section 3):
+ * WWW-Authenticate carries resource_metadata and scope, plus error when a token was presented.
+ *
+ * With a DPoP verifier, tokens bound to a key are accepted with the DPoP scheme and a proof of that key instead,
+ * and are refused with the Bearer scheme. Responses to DPoP requests carry the nonce for the next proof.
+ */
+export function requireBearerAuth({ provider, resourceMetadataUrl, resource, acceptedScopes, challengeScopes, dpop }: BearerAuthOptions): RequestHandler {
+    const challenge = (scheme: 'Bearer' | 'DPoP', params: Record<string, string | undefined>): string => {
+        const attributes = Object.entries({
+            ...params,
+            algs: scheme === 'DPoP' ? DPOP_SIGNING_ALGORITHMS.join(' ') : undefined,
+            scope: challengeScopes?.join(' '),
+            resource_metadata: resourceMetadataUrl.href
+        })
+            .filter(([, value]) => value !== undefined)
+            .map(([name, value]) => `${name}="${value!.replace(/[\\"]/g, '\\$&')}"`);
+        return `${scheme} ${attributes.join(', ')}`;
+    };
+
+    return async (req, res, next) => {
+        const authHeader = req.headers.authorization;
+        // A request without credentials gets a challenge without an error code (RFC 6750 section 3.1)
+        if (!authHeader) {
+            res.set("WWW-Authenticate", challenge("Bearer", {}));
+            res.status(401).json(new InvalidTokenError("Missing Authorization header").toResponseObject());
+            return;
+        }
+
+        const [type, token] = authHeader.split(' ');
+        const scheme = dpop && type.toLowerCase() === 'dpop' ? 'DPoP' : 'Bearer';
+        try {
+            if ((scheme === 'Bearer' && type.toLowerCase() !== 'bearer') || !token) {
+                throw new InvalidTokenError(`Invalid Authorization header format, expected '${dpop ? 'Bearer or DPoP' : 'Bearer'} TOKEN'`);
+            }
+
+            const authInfo = await provider.verifyAccessToken(token);
+            if (authInfo.expiresAt && authInfo.expiresAt < Date.now() / 1000) {
+                throw new InvalidTokenError("Token has expired");
+            }
+            const tokenJkt = authInfo.extra?.dpopJkt;
+            if (scheme === 'DPoP') {
+                res.set("DPoP-Nonce", dpop!.nonce);
+                const proofJkt = dpop!.verify(req.headers.dpop, { method: req.method, url: dpopRequestUrl(req), accessToken: token });
+                if (proofJkt !== tokenJkt) {
+                    throw new InvalidTokenError("Token is not bound to the key of the DPoP proof");
+                }
+            } else if (tokenJkt) {
+                throw new InvalidTokenError("DPoP-bound token must be sent with the DPoP scheme");
+            }
+            const tokenResource = authInfo.extra?.resource;
+            if (resource && tokenResource && tokenResource !== resource.href) {
+                throw new InvalidTokenError("Token was issued for another resource");
+            }
+            if (acceptedScopes && !authInfo.scopes.some(scope => acceptedScopes.includes(scope))) {
+                throw new InsufficientScopeError("Token carries none of the scopes this resource accepts");
+            }
+
+            req.auth = authInfo;
+            next();
+        } catch (error) {
+            if (error instanceof InvalidDPoPProofError || error instanceof UseDPoPNonceError) {
+                res.set("WWW-Authenticate", challenge("DPoP", { error: error.errorCode, error_description: error.message }));
+                res.status(401).json(error.toResponseObject());
+            } else if (error instanceof InvalidTokenError || error instanceof InsufficientScopeError) {
+                res.set("WWW-Authenticate", challenge(scheme, { error: error.errorCode, error_description: error.message }));
+                res.status(error instanceof InvalidTokenError ? 401 : 403).json(error.toResponseObject());
+            } else if (error instanceof OAuthError && !(error instanceof ServerError)) {
+                res.status(400).json(error.toResponseObject());
+            } else {
+                logger.error("Unexpected error authenticating bearer token", { error });
+                res.status(500).json(new ServerError("Internal Server Error").toResponseObject());
+            }
+        }
+    };
+}
@@ -0,0 +1,63 @@
+import { RequestHandler } from "express";
+import { rateLimit } from "express-rate-limit";
+import { TooManyRequestsError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+// Declares req.client, set by client authentication
+import "@modelcontextprotocol/sdk/server/auth/middleware/clientAuth.js";
+
+const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000; // 15 minutes
+
+export interface AuthRateLimits {
+    // Requests per IP address to any auth endpoint
+    perIp: number;
+    // Token requests per client, including device code polls
+    perClientToken: number;
+    // Device authorization requests per client; each one starts a device flow upstream
+    perClientDeviceAuthorization: number;
+}
+
+const DEFAULT_AUTH_RATE_LIMITS: AuthRateLimits = {
+    perIp: 600,
+    perClientToken: 300,
+    perClientDeviceAuthorization: 10,
+};
+
+/**
+ * Limit the requests of each IP address within a 15 minute window
+ */
+export function rateLimitByIp(limit: number, endpoint: string): RequestHandler {
+    return rateLimit({
+        windowMs: RATE_LIMIT_WINDOW_MS,
+        limit,
+        standardHeaders: true,
+        legacyHeaders: false,
+        message: new TooManyRequestsError(`You have exceeded the rate limit for ${endpoint} requests`).toResponseObject(),
+    });
+}
+
+/**
+ * Limit the requests of each client within a 15 minute window. Must run after client authentication,
+ * so a client cannot use up another client's allowance by sending its client_id.
+ */
+export function rateLimitByClient(limit: number, endpoint: string): RequestHandler {
+    return rateLimit({
+        windowMs: RATE_LIMIT_WINDOW_MS,
+        limit,
+        standardHeaders: true,
+        legacyHeaders: false,
+        keyGenerator: (req) => `client:${req.client!.client_id}`,
+        message: new TooManyRequestsError(`You have exceeded the rate limit for ${endpoint} requests`).toResponseObject(),
+    });
+}
+
+/**
+ * Rate limits from AUTH_RATE_LIMIT_PER_IP, AUTH_RATE_LIMIT_PER_CLIENT_TOKEN and AUTH_RATE_LIMIT_PER_CLIENT_DEVICE_AUTHORIZATION
+ * (requests per 15 minutes), or the defaults
+ */
+export function loadAuthRateLimits(env: NodeJS.ProcessEnv = process.env): AuthRateLimits {
+    const limit = (value: string | undefined, defaultLimit: number) => value ? Number(value) : defaultLimit;
+    return {
+        perIp: limit(env.AUTH_RATE_LIMIT_PER_IP, DEFAULT_AUTH_RATE_LIMITS.perIp),
+        perClientToken: limit(env.AUTH_RATE_LIMIT_PER_CLIENT_TOKEN, DEFAULT_AUTH_RATE_LIMITS.perClientToken),
+        perClientDeviceAuthorization: limit(env.AUTH_RATE_LIMIT_PER_CLIENT_DEVICE_AUTHORIZATION, DEFAULT_AUTH_RATE_LIMITS.perClientDeviceAuthorization),
+    };
+}
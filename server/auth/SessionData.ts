@@ -6,4 +6,9 @@ export interface SessionData {
     originalState?: string;
     clientCodeChallenge?: string;
     clientCodeChallengeMethod?: string;
+    // MCP scopes granted once the user signs in
+    scopes: string[];
+    // Resource (RFC 8707) the tokens are bound to
+    resource: string;
+    expiresAt: number;
 }
\ No newline at end of file
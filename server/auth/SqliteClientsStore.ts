@@ -0,0 +1,252 @@
+import sqlite3 from 'sqlite3';
+import { createHash } from 'crypto';
+import path from 'path';
+import fs from 'fs/promises';
+import { existsSync, mkdirSync } from 'fs';
+import { OAuthRegisteredClientsStore } from "@modelcontextprotocol/sdk/server/auth/clients.js";
+import { OAuthClientInformationFull } from "@modelcontextprotocol/sdk/shared/auth.js";
+import { createLogger } from "../../shared/logger.js";
+
+const logger = createLogger("auth.clients");
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS clients (
+  client_id TEXT PRIMARY KEY,
+  client_info TEXT NOT NULL,
+  created_at INTEGER NOT NULL,
+  last_used_at INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS clients_last_used_at ON clients (last_used_at);
+`;
+
+// Columns added after the first release, for databases created before them
+const MIGRATIONS = [
+  { table: 'clients', column: 'registration_access_token_hash', definition: 'TEXT' },
+  { table: 'clients', column: 'client_secret_hash', definition: 'TEXT' },
+];
+
+// Avoid a write on every lookup: last_used_at only moves when it is older than this
+const LAST_USED_RESOLUTION_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Client secrets are random values generated at registration, so a plain SHA-256 hash is enough to store them
+ */
+export function hashClientSecret(clientSecret: string): string {
+  return createHash('sha256').update(clientSecret).digest('hex');
+}
+
+/**
+ * Registered OAuth clients persisted in a SQLite database.
+ * Writes are serialized by SQLite, so concurrent registrations cannot clobber each other.
+ * Client secrets are only stored as hashes; clients are returned without their secret.
+ */
+export class SqliteClientsStore implements OAuthRegisteredClientsStore {
+  private _db: sqlite3.Database;
+  private _ready: Promise<void>;
+
+  /**
+   * @param filename SQLite database file
+   * @param legacyClientsFile registered_clients.json from earlier versions, imported once and then renamed
+   */
+  constructor(filename: string, legacyClientsFile?: string) {
+    if (filename !== ':memory:') {
+      const dir = path.dirname(filename);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+    }
+
+    this._db = new sqlite3.Database(filename);
+    this._ready = this._initialize(legacyClientsFile);
+  }
+
+  /**
+   * Resolves once the schema is in place and legacy clients are imported
+   */
+  ready(): Promise<void> {
+    return this._ready;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this._db.close((err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  private async _initialize(legacyClientsFile?: string): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this._db.exec(SCHEMA, (err) => (err ? reject(err) : resolve()));
+    });
+    for (const { table, column, definition } of MIGRATIONS) {
+      const columns = await this._all<{ name: string }>(`PRAGMA table_info(${table})`, []);
+      if (!columns.some(c => c.name === column)) {
+        await this._run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`, []);
+      }
+    }
+
+    if (legacyClientsFile && existsSync(legacyClientsFile)) {
+      await this._importLegacyClients(legacyClientsFile);
+    }
+    await this._hashPlaintextSecrets();
+  }
+
+  /**
+   * Clients registered before secrets were hashed have their secret in client_info
+   */
+  private async _hashPlaintextSecrets(): Promise<void> {
+    const rows = await this._all<{ client_id: string; client_info: string }>(
+      'SELECT client_id, client_info FROM clients WHERE client_secret_hash IS NULL',
+      []
+    );
+    for (const row of rows) {
+      const { client_secret, ...client } = JSON.parse(row.client_info) as OAuthClientInformationFull;
+      if (client_secret) {
+        await this._run(
+          'UPDATE clients SET client_info = ?, client_secret_hash = ? WHERE client_id = ?',
+          [JSON.stringify(client), hashClientSecret(client_secret), row.client_id]
+        );
+      }
+    }
+  }
+
+  private async _importLegacyClients(legacyClientsFile: string): Promise<void> {
+    const fileContent = await fs.readFile(legacyClientsFile, { encoding: 'utf8' });
+    const clientsData = JSON.parse(fileContent) as Record<string, OAuthClientInformationFull>;
+
+    const now = Date.now();
+    for (const client of Object.values(clientsData)) {
+      const createdAt = client.client_id_issued_at ? client.client_id_issued_at * 1000 : now;
+      await this._run(
+        'INSERT OR IGNORE INTO clients (client_id, client_info, created_at, last_used_at) VALUES (?, ?, ?, ?)',
+        [client.client_id, JSON.stringify(client), createdAt, now]
+      );
+    }
+
+    await fs.rename(legacyClientsFile, `${legacyClientsFile}.migrated`);
+    logger.info(`Imported ${Object.keys(clientsData).length} registered clients from ${legacyClientsFile}.`);
+  }
+
+  /**
+   * Runs a statement and resolves with the number of rows it changed
+   */
+  private _run(sql: string, params: unknown[]): Promise<number> {
+    return new Promise((resolve, reject) => {
+      this._db.run(sql, params, function (err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.changes);
+        }
+      });
+    });
+  }
+
+  private _all<T>(sql: string, params: unknown[]): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      this._db.all(sql, params, (err, rows) => (err ? reject(err) : resolve(rows as T[])));
+    });
+  }
+
+  private _get<T>(sql: string, params: unknown[]): Promise<T | undefined> {
+    return new Promise((resolve, reject) => {
+      this._db.get(sql, params, (err, row) => (err ? reject(err) : resolve(row as T | undefined)));
+    });
+  }
+
+  async getClient(clientId: string): Promise<OAuthClientInformationFull | undefined> {
+    await this._ready;
+    const row = await this._get<{ client_info: string }>('SELECT client_info FROM clients WHERE client_id = ?', [clientId]);
+    if (!row) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    await this._run(
+      'UPDATE clients SET last_used_at = ? WHERE client_id = ? AND last_used_at < ?',
+      [now, clientId, now - LAST_USED_RESOLUTION_MS]
+    );
+
+    return JSON.parse(row.client_info) as OAuthClientInformationFull;
+  }
+
+  /**
+   * @param registrationAccessTokenHash Hash of the RFC 7592 registration access token that manages this client
+   */
+  async registerClient(client: OAuthClientInformationFull, registrationAccessTokenHash?: string): Promise<OAuthClientInformationFull> {
+    await this._ready;
+    const { client_secret, ...clientInfo } = client;
+    const now = Date.now();
+    await this._run(
+      `INSERT INTO clients (client_id, client_info, created_at, last_used_at, registration_access_token_hash, client_secret_hash)
+        VALUES (?, ?, ?, ?, ?, ?)`,
+      [
+        client.client_id,
+        JSON.stringify(clientInfo),
+        now,
+        now,
+        registrationAccessTokenHash ?? null,
+        client_secret ? hashClientSecret(client_secret) : null,
+      ]
+    );
+    logger.info('Registered client', { client_id: client.client_id });
+    return client;
+  }
+
+  /**
+   * Hash of the client secret, or undefined for public clients
+   */
+  async getClientSecretHash(clientId: string): Promise<string | undefined> {
+    await this._ready;
+    const row = await this._get<{ client_secret_hash: string | null }>(
+      'SELECT client_secret_hash FROM clients WHERE client_id = ?',
+      [clientId]
+    );
+    return row?.client_secret_hash ?? undefined;
+  }
+
+  /**
+   * Hash of the registration access token of a client, or undefined when it cannot be managed
+   */
+  async getRegistrationAccessTokenHash(clientId: string): Promise<string | undefined> {
+    await this._ready;
+    const row = await this._get<{ registration_access_token_hash: string | null }>(
+      'SELECT registration_access_token_hash FROM clients WHERE client_id = ?',
+      [clientId]
+    );
+    return row?.registration_access_token_hash ?? undefined;
+  }
+
+  /**
+   * Replace the metadata of a client. Its secret is left as it is.
+   */
+  async updateClient(client: OAuthClientInformationFull): Promise<void> {
+    await this._ready;
+    const { client_secret: _, ...clientInfo } = client;
+    await this._run('UPDATE clients SET client_info = ? WHERE client_id = ?', [JSON.stringify(clientInfo), client.client_id]);
+    logger.info('Updated client', { client_id: client.client_id });
+  }
+
+  async deleteClient(clientId: string): Promise<void> {
+    await this._ready;
+    await this._run('DELETE FROM clients WHERE client_id = ?', [clientId]);
+    logger.info('Deleted client', { client_id: clientId });
+  }
+
+  /**
+   * Delete clients that have not been used for the given time
+   * @returns The IDs of the clients deleted
+   */
+  async deleteStaleClients(unusedForMs: number): Promise<string[]> {
+    await this._ready;
+    const cutoff = Date.now() - unusedForMs;
+    const rows = await this._all<{ client_id: string }>('SELECT client_id FROM clients WHERE last_used_at < ?', [cutoff]);
+    const deleted: string[] = [];
+    for (const { client_id } of rows) {
+      // Skip clients used since they were selected
+      if (await this._run('DELETE FROM clients WHERE client_id = ? AND last_used_at < ?', [client_id, cutoff]) > 0) {
+        deleted.push(client_id);
+      }
+    }
+    return deleted;
+  }
+}
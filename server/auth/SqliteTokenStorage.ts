@@ -0,0 +1,359 @@
+import sqlite3 from 'sqlite3';
+import path from 'path';
+import { existsSync, mkdirSync } from 'fs';
+import { RefreshTokenData, SealedUpstreamToken, StoredUpstreamToken, TokenData, TokenStorage, UpstreamTokenFields } from './TokenStorage.js';
+import { UpstreamUserInfo } from './UpstreamIdentityProvider.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS session_tokens (
+    token_hash TEXT PRIMARY KEY,
+    access_token TEXT NOT NULL,
+    expires_at INTEGER NOT NULL,
+    client_id TEXT NOT NULL,
+    scopes TEXT NOT NULL,
+    family_id TEXT NOT NULL,
+    key_id TEXT,
+    upstream_refresh_token TEXT,
+    upstream_expires_at INTEGER,
+    user_info TEXT,
+    resource TEXT,
+    dpop_jkt TEXT,
+    client_code_challenge TEXT,
+    client_code_challenge_method TEXT
+  );
+  CREATE INDEX IF NOT EXISTS session_tokens_expires_at ON session_tokens (expires_at);
+  CREATE INDEX IF NOT EXISTS session_tokens_family_id ON session_tokens (family_id);
+
+  CREATE TABLE IF NOT EXISTS refresh_tokens (
+    token_hash TEXT PRIMARY KEY,
+    access_token TEXT NOT NULL,
+    expires_at INTEGER NOT NULL,
+    client_id TEXT NOT NULL,
+    scopes TEXT NOT NULL,
+    family_id TEXT NOT NULL,
+    key_id TEXT,
+    upstream_refresh_token TEXT,
+    upstream_expires_at INTEGER,
+    user_info TEXT,
+    resource TEXT,
+    dpop_jkt TEXT,
+    rotated_at INTEGER
+  );
+  CREATE INDEX IF NOT EXISTS refresh_tokens_expires_at ON refresh_tokens (expires_at);
+  CREATE INDEX IF NOT EXISTS refresh_tokens_family_id ON refresh_tokens (family_id);
+`;
+
+// Columns added after the first release, for databases created before them
+const MIGRATIONS = [
+  { table: 'session_tokens', column: 'key_id', definition: 'TEXT' },
+  { table: 'refresh_tokens', column: 'key_id', definition: 'TEXT' },
+  { table: 'session_tokens', column: 'user_info', definition: 'TEXT' },
+  { table: 'refresh_tokens', column: 'user_info', definition: 'TEXT' },
+  { table: 'session_tokens', column: 'resource', definition: 'TEXT' },
+  { table: 'refresh_tokens', column: 'resource', definition: 'TEXT' },
+  { table: 'session_tokens', column: 'dpop_jkt', definition: 'TEXT' },
+  { table: 'refresh_tokens', column: 'dpop_jkt', definition: 'TEXT' },
+  { table: 'session_tokens', column: 'upstream_refresh_token', definition: 'TEXT' },
+  { table: 'refresh_tokens', column: 'upstream_refresh_token', definition: 'TEXT' },
+  { table: 'session_tokens', column: 'upstream_expires_at', definition: 'INTEGER' },
+  { table: 'refresh_tokens', column: 'upstream_expires_at', definition: 'INTEGER' },
+];
+
+const KEY_ID_INDEXES = `
+  CREATE INDEX IF NOT EXISTS session_tokens_key_id ON session_tokens (key_id);
+  CREATE INDEX IF NOT EXISTS refresh_tokens_key_id ON refresh_tokens (key_id);
+`;
+
+const UPSTREAM_TOKEN_TABLES = {
+  session: 'session_tokens',
+  refresh: 'refresh_tokens',
+} as const;
+
+interface SessionTokenRow {
+  access_token: string;
+  expires_at: number;
+  client_id: string;
+  scopes: string;
+  family_id: string;
+  key_id: string | null;
+  upstream_refresh_token: string | null;
+  upstream_expires_at: number | null;
+  user_info: string | null;
+  resource: string | null;
+  dpop_jkt: string | null;
+  client_code_challenge: string | null;
+  client_code_challenge_method: string | null;
+}
+
+interface RefreshTokenRow {
+  access_token: string;
+  expires_at: number;
+  client_id: string;
+  scopes: string;
+  family_id: string;
+  key_id: string | null;
+  upstream_refresh_token: string | null;
+  upstream_expires_at: number | null;
+  user_info: string | null;
+  resource: string | null;
+  dpop_jkt: string | null;
+  rotated_at: number | null;
+}
+
+/**
+ * Token storage persisted in a SQLite database, so sessions survive restarts
+ */
+export class SqliteTokenStorage implements TokenStorage {
+  private _db: sqlite3.Database;
+  private _ready: Promise<void>;
+
+  constructor(filename: string) {
+    if (filename !== ':memory:') {
+      const dir = path.dirname(filename);
+      if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+      }
+    }
+
+    this._db = new sqlite3.Database(filename);
+    this._ready = this._initialize();
+  }
+
+  private async _initialize(): Promise<void> {
+    await this._exec(SCHEMA);
+    for (const { table, column, definition } of MIGRATIONS) {
+      const columns = await this._all<{ name: string }>(`PRAGMA table_info(${table})`, []);
+      if (!columns.some(c => c.name === column)) {
+        await this._exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+      }
+    }
+    await this._exec(KEY_ID_INDEXES);
+  }
+
+  private _exec(sql: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this._db.exec(sql, (err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  private _all<T>(sql: string, params: unknown[]): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      this._db.all(sql, params, (err, rows) => (err ? reject(err) : resolve(rows as T[])));
+    });
+  }
+
+  /**
+   * Resolves once the schema is in place
+   */
+  ready(): Promise<void> {
+    return this._ready;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this._db.close((err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  /**
+   * Runs a statement and resolves with the number of rows it changed
+   */
+  private async _run(sql: string, params: unknown[]): Promise<number> {
+    await this._ready;
+    return new Promise((resolve, reject) => {
+      this._db.run(sql, params, function (err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.changes);
+        }
+      });
+    });
+  }
+
+  private async _get<T>(sql: string, params: unknown[]): Promise<T | undefined> {
+    await this._ready;
+    return new Promise((resolve, reject) => {
+      this._db.get(sql, params, (err, row) => (err ? reject(err) : resolve(row as T | undefined)));
+    });
+  }
+
+  async saveToken(tokenHash: string, data: TokenData): Promise<void> {
+    await this._run(
+      `INSERT OR REPLACE INTO session_tokens
+        (token_hash, access_token, expires_at, client_id, scopes, family_id, key_id, upstream_refresh_token, upstream_expires_at,
+          user_info, resource, dpop_jkt, client_code_challenge, client_code_challenge_method)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        tokenHash,
+        data.accessToken,
+        data.expiresAt,
+        data.clientId,
+        data.scopes.join(' '),
+        data.familyId,
+        data.keyId ?? null,
+        data.upstreamRefreshToken ?? null,
+        data.upstreamExpiresAt ?? null,
+        serializeUser(data.user),
+        data.resource ?? null,
+        data.dpopJkt ?? null,
+        data.clientCodeChallenge ?? null,
+        data.clientCodeChallengeMethod ?? null,
+      ]
+    );
+  }
+
+  async getToken(tokenHash: string): Promise<TokenData | undefined> {
+    const row = await this._get<SessionTokenRow>('SELECT * FROM session_tokens WHERE token_hash = ?', [tokenHash]);
+    if (!row) {
+      return undefined;
+    }
+
+    return {
+      accessToken: row.access_token,
+      expiresAt: row.expires_at,
+      clientId: row.client_id,
+      scopes: splitScopes(row.scopes),
+      familyId: row.family_id,
+      keyId: row.key_id ?? undefined,
+      upstreamRefreshToken: row.upstream_refresh_token ?? undefined,
+      upstreamExpiresAt: row.upstream_expires_at ?? undefined,
+      user: parseUser(row.user_info),
+      resource: row.resource ?? undefined,
+      dpopJkt: row.dpop_jkt ?? undefined,
+      clientCodeChallenge: row.client_code_challenge ?? undefined,
+      clientCodeChallengeMethod: row.client_code_challenge_method ?? undefined,
+    };
+  }
+
+  async deleteToken(tokenHash: string): Promise<void> {
+    await this._run('DELETE FROM session_tokens WHERE token_hash = ?', [tokenHash]);
+  }
+
+  async saveRefreshToken(tokenHash: string, data: RefreshTokenData): Promise<void> {
+    await this._run(
+      `INSERT OR REPLACE INTO refresh_tokens
+        (token_hash, access_token, expires_at, client_id, scopes, family_id, key_id, upstream_refresh_token, upstream_expires_at,
+          user_info, resource, dpop_jkt, rotated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        tokenHash,
+        data.accessToken,
+        data.expiresAt,
+        data.clientId,
+        data.scopes.join(' '),
+        data.familyId,
+        data.keyId ?? null,
+        data.upstreamRefreshToken ?? null,
+        data.upstreamExpiresAt ?? null,
+        serializeUser(data.user),
+        data.resource ?? null,
+        data.dpopJkt ?? null,
+        data.rotatedAt ?? null,
+      ]
+    );
+  }
+
+  async getRefreshToken(tokenHash: string): Promise<RefreshTokenData | undefined> {
+    const row = await this._get<RefreshTokenRow>('SELECT * FROM refresh_tokens WHERE token_hash = ?', [tokenHash]);
+    if (!row) {
+      return undefined;
+    }
+
+    return {
+      accessToken: row.access_token,
+      expiresAt: row.expires_at,
+      clientId: row.client_id,
+      scopes: splitScopes(row.scopes),
+      familyId: row.family_id,
+      keyId: row.key_id ?? undefined,
+      upstreamRefreshToken: row.upstream_refresh_token ?? undefined,
+      upstreamExpiresAt: row.upstream_expires_at ?? undefined,
+      user: parseUser(row.user_info),
+      resource: row.resource ?? undefined,
+      dpopJkt: row.dpop_jkt ?? undefined,
+      rotatedAt: row.rotated_at ?? undefined,
+    };
+  }
+
+  async markRefreshTokenRotated(tokenHash: string, rotatedAt: number): Promise<boolean> {
+    const changes = await this._run(
+      'UPDATE refresh_tokens SET rotated_at = ? WHERE token_hash = ? AND rotated_at IS NULL',
+      [rotatedAt, tokenHash]
+    );
+    return changes > 0;
+  }
+
+  async deleteFamily(familyId: string): Promise<void> {
+    await this._run('DELETE FROM session_tokens WHERE family_id = ?', [familyId]);
+    await this._run('DELETE FROM refresh_tokens WHERE family_id = ?', [familyId]);
+  }
+
+  async updateFamilyUpstreamTokens(familyId: string, upstream: UpstreamTokenFields): Promise<void> {
+    for (const table of Object.values(UPSTREAM_TOKEN_TABLES)) {
+      await this._run(
+        `UPDATE ${table} SET access_token = ?, key_id = ?, upstream_refresh_token = ?, upstream_expires_at = ? WHERE family_id = ?`,
+        [upstream.accessToken, upstream.keyId ?? null, upstream.upstreamRefreshToken ?? null, upstream.upstreamExpiresAt ?? null, familyId]
+      );
+    }
+  }
+
+  async deleteClientTokens(clientId: string): Promise<void> {
+    await this._run('DELETE FROM session_tokens WHERE client_id = ?', [clientId]);
+    await this._run('DELETE FROM refresh_tokens WHERE client_id = ?', [clientId]);
+  }
+
+  async deleteExpired(now: number): Promise<void> {
+    // Both deletes use the expires_at indexes
+    await this._run('DELETE FROM session_tokens WHERE expires_at < ?', [now]);
+    await this._run('DELETE FROM refresh_tokens WHERE expires_at < ?', [now]);
+  }
+
+  async listUpstreamTokensNotEncryptedWith(keyId: string, limit: number, skip: string[]): Promise<StoredUpstreamToken[]> {
+    await this._ready;
+    const stale: StoredUpstreamToken[] = [];
+    for (const [kind, table] of Object.entries(UPSTREAM_TOKEN_TABLES) as [StoredUpstreamToken['kind'], string][]) {
+      if (stale.length >= limit) {
+        break;
+      }
+      const placeholders = skip.map(() => '?').join(', ');
+      const rows = await this._all<{ token_hash: string; access_token: string; upstream_refresh_token: string | null; key_id: string | null }>(
+        `SELECT token_hash, access_token, upstream_refresh_token, key_id FROM ${table}
+          WHERE (key_id IS NULL OR key_id != ?)${skip.length > 0 ? ` AND token_hash NOT IN (${placeholders})` : ''}
+          LIMIT ?`,
+        [keyId, ...skip, limit - stale.length]
+      );
+      for (const row of rows) {
+        stale.push({
+          kind,
+          tokenHash: row.token_hash,
+          accessToken: row.access_token,
+          upstreamRefreshToken: row.upstream_refresh_token ?? undefined,
+          keyId: row.key_id ?? undefined,
+        });
+      }
+    }
+    return stale;
+  }
+
+  async updateUpstreamToken(stale: StoredUpstreamToken, sealed: SealedUpstreamToken): Promise<boolean> {
+    const changes = await this._run(
+      `UPDATE ${UPSTREAM_TOKEN_TABLES[stale.kind]} SET access_token = ?, upstream_refresh_token = ?, key_id = ?
+        WHERE token_hash = ? AND key_id IS ? AND access_token = ?`,
+      [sealed.accessToken, sealed.upstreamRefreshToken ?? null, sealed.keyId ?? null, stale.tokenHash, stale.keyId ?? null, stale.accessToken]
+    );
+    return changes > 0;
+  }
+}
+
+function splitScopes(scopes: string): string[] {
+  return scopes ? scopes.split(' ') : [];
+}
+
+function serializeUser(user?: UpstreamUserInfo): string | null {
+  return user ? JSON.stringify(user) : null;
+}
+
+function parseUser(userInfo: string | null): UpstreamUserInfo | undefined {
+  return userInfo ? JSON.parse(userInfo) as UpstreamUserInfo : undefined;
+}
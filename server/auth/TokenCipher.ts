@@ -0,0 +1,137 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { readFileSync } from 'fs';
+import { ConfigError } from '../config.js';
+
+const ENVELOPE_PREFIX = 'enc:v1';
+const KEY_ID_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Envelope encryption (AES-256-GCM) for upstream tokens stored at rest.
+ *
+ * Every value gets its own random data key, which is wrapped with the active key-encryption key.
+ * The envelope names the key that wrapped it, so keys can be rotated while older records stay readable:
+ *   enc:v1:<keyId>:<wrapped data key>:<iv>:<ciphertext>:<auth tag>
+ */
+export class TokenCipher {
+    private _keys: Map<string, Buffer>;
+    readonly activeKeyId: string;
+
+    constructor(keys: Map<string, Buffer>, activeKeyId: string) {
+        if (!keys.has(activeKeyId)) {
+            throw new ConfigError(`Active token encryption key "${activeKeyId}" is not in the keyring`);
+        }
+        for (const [keyId, key] of keys.entries()) {
+            if (!KEY_ID_PATTERN.test(keyId)) {
+                throw new ConfigError(`Invalid token encryption key id "${keyId}"`);
+            }
+            if (key.length !== 32) {
+                throw new ConfigError(`Token encryption key "${keyId}" must be 32 bytes`);
+            }
+        }
+        this._keys = keys;
+        this.activeKeyId = activeKeyId;
+    }
+
+    encrypt(plaintext: string): string {
+        const kek = this._keys.get(this.activeKeyId)!;
+        const dataKey = randomBytes(32);
+        const aad = Buffer.from(`${ENVELOPE_PREFIX}:${this.activeKeyId}`);
+
+        const wrapped = seal(kek, dataKey, aad);
+        const data = seal(dataKey, Buffer.from(plaintext, 'utf8'), aad);
+
+        return [
+            ENVELOPE_PREFIX,
+            this.activeKeyId,
+            Buffer.concat([wrapped.iv, wrapped.ciphertext, wrapped.tag]).toString('base64url'),
+            data.iv.toString('base64url'),
+            data.ciphertext.toString('base64url'),
+            data.tag.toString('base64url'),
+        ].join(':');
+    }
+
+    decrypt(envelope: string): string {
+        const parts = envelope.split(':');
+        if (parts.length !== 7 || `${parts[0]}:${parts[1]}` !== ENVELOPE_PREFIX) {
+            throw new Error("Malformed encrypted token");
+        }
+
+        const [, , keyId, wrappedKey, iv, ciphertext, tag] = parts;
+        const kek = this._keys.get(keyId);
+        if (!kek) {
+            throw new Error(`Token encryption key "${keyId}" is not in the keyring`);
+        }
+        const aad = Buffer.from(`${ENVELOPE_PREFIX}:${keyId}`);
+
+        const wrapped = Buffer.from(wrappedKey, 'base64url');
+        const dataKey = open(kek, wrapped.subarray(0, 12), wrapped.subarray(12, wrapped.length - 16), wrapped.subarray(wrapped.length - 16), aad);
+
+        return open(
+            dataKey,
+            Buffer.from(iv, 'base64url'),
+            Buffer.from(ciphertext, 'base64url'),
+            Buffer.from(tag, 'base64url'),
+            aad
+        ).toString('utf8');
+    }
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: Buffer): { iv: Buffer; ciphertext: Buffer; tag: Buffer } {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    cipher.setAAD(aad);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { iv, ciphertext, tag: cipher.getAuthTag() };
+}
+
+function open(key: Buffer, iv: Buffer, ciphertext: Buffer, tag: Buffer, aad: Buffer): Buffer {
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAAD(aad);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Load the keyring from the environment, or return undefined when encryption is not configured.
+ *
+ * - TOKEN_ENCRYPTION_KEY_FILE: JSON file {"activeKeyId": "k2", "keys": {"k1": "<base64>", "k2": "<base64>"}}
+ * - TOKEN_ENCRYPTION_KEYS: comma-separated "keyId:<base64>" entries, the first one being the active key
+ *
+ * To rotate, add a new key as the active one and keep the old ones until re-encryption has finished.
+ */
+export function loadTokenCipher(env: NodeJS.ProcessEnv = process.env): TokenCipher | undefined {
+    if (env.TOKEN_ENCRYPTION_KEY_FILE) {
+        let keyFile;
+        try {
+            keyFile = JSON.parse(readFileSync(env.TOKEN_ENCRYPTION_KEY_FILE, 'utf8'));
+        } catch (error) {
+            throw new ConfigError(`Cannot read token encryption key file ${env.TOKEN_ENCRYPTION_KEY_FILE}: ${error instanceof Error ? error.message : error}`);
+        }
+        if (!keyFile?.activeKeyId || typeof keyFile.keys !== 'object' || keyFile.keys === null) {
+            throw new ConfigError(`Token encryption key file must contain "activeKeyId" and "keys"`);
+        }
+        const keys = new Map<string, Buffer>();
+        for (const [keyId, key] of Object.entries(keyFile.keys)) {
+            keys.set(keyId, Buffer.from(String(key), 'base64'));
+        }
+        return new TokenCipher(keys, keyFile.activeKeyId);
+    }
+
+    if (env.TOKEN_ENCRYPTION_KEYS) {
+        const keys = new Map<string, Buffer>();
+        for (const entry of env.TOKEN_ENCRYPTION_KEYS.split(',').map(e => e.trim()).filter(Boolean)) {
+            const separator = entry.indexOf(':');
+            if (separator <= 0) {
+                throw new ConfigError(`TOKEN_ENCRYPTION_KEYS entries must look like keyId:<base64 key>`);
+            }
+            keys.set(entry.slice(0, separator), Buffer.from(entry.slice(separator + 1), 'base64'));
+        }
+        const [activeKeyId] = keys.keys();
+        if (!activeKeyId) {
+            throw new ConfigError("TOKEN_ENCRYPTION_KEYS is empty");
+        }
+        return new TokenCipher(keys, activeKeyId);
+    }
+
+    return undefined;
+}
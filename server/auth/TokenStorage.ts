@@ -0,0 +1,227 @@
+import { UpstreamUserInfo } from './UpstreamIdentityProvider.js';
+
+/**
+ * Data stored for an MCP session (access) token
+ */
+export interface TokenData {
+  accessToken: string;
+  expiresAt: number;
+  clientId: string;
+  scopes: string[];
+  // All session and refresh tokens descending from one authorization share a family
+  familyId: string;
+  // Key that encrypted accessToken and upstreamRefreshToken at rest; undefined when they are stored in plaintext
+  keyId?: string;
+  // Refresh token of the upstream access token; undefined when the upstream provider issued none
+  upstreamRefreshToken?: string;
+  // When the upstream access token expires (ms since epoch); undefined when it does not expire
+  upstreamExpiresAt?: number;
+  // Upstream user the token was issued to
+  user?: UpstreamUserInfo;
+  // Resource (RFC 8707) the token may be used at; undefined for tokens issued before resources were recorded
+  resource?: string;
+  // Thumbprint (RFC 7638) of the DPoP key the token is bound to (RFC 9449); undefined for bearer tokens
+  dpopJkt?: string;
+  clientCodeChallenge?: string;
+  clientCodeChallengeMethod?: string;
+}
+
+/**
+ * Data stored for an MCP refresh token
+ */
+export interface RefreshTokenData {
+  accessToken: string;
+  expiresAt: number;
+  clientId: string;
+  scopes: string[];
+  familyId: string;
+  keyId?: string;
+  upstreamRefreshToken?: string;
+  upstreamExpiresAt?: number;
+  user?: UpstreamUserInfo;
+  resource?: string;
+  dpopJkt?: string;
+  // Set once the refresh token has been exchanged; presenting it again is a replay
+  rotatedAt?: number;
+}
+
+/**
+ * An upstream token as stored, for re-encryption after key rotation
+ */
+export interface StoredUpstreamToken {
+  kind: 'session' | 'refresh';
+  tokenHash: string;
+  accessToken: string;
+  upstreamRefreshToken?: string;
+  keyId?: string;
+}
+
+/**
+ * The encrypted form of a stored upstream token
+ */
+export type SealedUpstreamToken = Pick<StoredUpstreamToken, 'accessToken' | 'upstreamRefreshToken' | 'keyId'>;
+
+/**
+ * The upstream tokens stored with every session and refresh token of a family
+ */
+export type UpstreamTokenFields = Pick<TokenData, 'accessToken' | 'keyId' | 'upstreamRefreshToken' | 'upstreamExpiresAt'>;
+
+/**
+ * Persistence behind the TokenStore. Tokens are only ever passed in as hashes,
+ * so a storage backend never sees a usable bearer token.
+ */
+export interface TokenStorage {
+  saveToken(tokenHash: string, data: TokenData): Promise<void>;
+  getToken(tokenHash: string): Promise<TokenData | undefined>;
+  deleteToken(tokenHash: string): Promise<void>;
+
+  saveRefreshToken(tokenHash: string, data: RefreshTokenData): Promise<void>;
+  getRefreshToken(tokenHash: string): Promise<RefreshTokenData | undefined>;
+  /**
+   * Mark a refresh token as exchanged. Resolves false if it was already rotated (or is unknown),
+   * so two concurrent exchanges of one refresh token cannot both succeed.
+   */
+  markRefreshTokenRotated(tokenHash: string, rotatedAt: number): Promise<boolean>;
+
+  /**
+   * Delete every session and refresh token of a token family
+   */
+  deleteFamily(familyId: string): Promise<void>;
+
+  /**
+   * Replace the upstream tokens of every session and refresh token of a token family, once they were refreshed upstream
+   */
+  updateFamilyUpstreamTokens(familyId: string, upstream: UpstreamTokenFields): Promise<void>;
+
+  /**
+   * Delete every session and refresh token issued to a client
+   */
+  deleteClientTokens(clientId: string): Promise<void>;
+
+  /**
+   * Delete every session and refresh token that expired before the given time (ms since epoch)
+   */
+  deleteExpired(now: number): Promise<void>;
+
+  /**
+   * Up to `limit` stored upstream tokens not encrypted with the given key, skipping the given token hashes
+   */
+  listUpstreamTokensNotEncryptedWith(keyId: string, limit: number, skip: string[]): Promise<StoredUpstreamToken[]>;
+
+  /**
+   * Replace a stored upstream token with its re-encrypted form. Resolves false, leaving the record alone, if it no longer
+   * holds what was listed, so a refresh of the upstream token landing in between is not overwritten with the old one.
+   */
+  updateUpstreamToken(stale: StoredUpstreamToken, sealed: SealedUpstreamToken): Promise<boolean>;
+}
+
+/**
+ * Token storage that lives only as long as the process
+ */
+export class InMemoryTokenStorage implements TokenStorage {
+  private _tokens: Map<string, TokenData> = new Map();
+  private _refreshTokens: Map<string, RefreshTokenData> = new Map();
+
+  async saveToken(tokenHash: string, data: TokenData): Promise<void> {
+    this._tokens.set(tokenHash, data);
+  }
+
+  async getToken(tokenHash: string): Promise<TokenData | undefined> {
+    return this._tokens.get(tokenHash);
+  }
+
+  async deleteToken(tokenHash: string): Promise<void> {
+    this._tokens.delete(tokenHash);
+  }
+
+  async saveRefreshToken(tokenHash: string, data: RefreshTokenData): Promise<void> {
+    this._refreshTokens.set(tokenHash, data);
+  }
+
+  async getRefreshToken(tokenHash: string): Promise<RefreshTokenData | undefined> {
+    return this._refreshTokens.get(tokenHash);
+  }
+
+  async markRefreshTokenRotated(tokenHash: string, rotatedAt: number): Promise<boolean> {
+    const refreshData = this._refreshTokens.get(tokenHash);
+    if (!refreshData || refreshData.rotatedAt) {
+      return false;
+    }
+    refreshData.rotatedAt = rotatedAt;
+    return true;
+  }
+
+  async deleteFamily(familyId: string): Promise<void> {
+    for (const [tokenHash, data] of this._tokens.entries()) {
+      if (data.familyId === familyId) {
+        this._tokens.delete(tokenHash);
+      }
+    }
+    for (const [tokenHash, data] of this._refreshTokens.entries()) {
+      if (data.familyId === familyId) {
+        this._refreshTokens.delete(tokenHash);
+      }
+    }
+  }
+
+  async updateFamilyUpstreamTokens(familyId: string, upstream: UpstreamTokenFields): Promise<void> {
+    for (const tokens of [this._tokens, this._refreshTokens]) {
+      for (const data of tokens.values()) {
+        if (data.familyId === familyId) {
+          Object.assign(data, upstream);
+        }
+      }
+    }
+  }
+
+  async deleteClientTokens(clientId: string): Promise<void> {
+    for (const [tokenHash, data] of this._tokens.entries()) {
+      if (data.clientId === clientId) {
+        this._tokens.delete(tokenHash);
+      }
+    }
+    for (const [tokenHash, data] of this._refreshTokens.entries()) {
+      if (data.clientId === clientId) {
+        this._refreshTokens.delete(tokenHash);
+      }
+    }
+  }
+
+  async deleteExpired(now: number): Promise<void> {
+    for (const [tokenHash, data] of this._tokens.entries()) {
+      if (data.expiresAt < now) {
+        this._tokens.delete(tokenHash);
+      }
+    }
+    for (const [tokenHash, data] of this._refreshTokens.entries()) {
+      if (data.expiresAt < now) {
+        this._refreshTokens.delete(tokenHash);
+      }
+    }
+  }
+
+  async listUpstreamTokensNotEncryptedWith(keyId: string, limit: number, skip: string[]): Promise<StoredUpstreamToken[]> {
+    const stale: StoredUpstreamToken[] = [];
+    const collect = (kind: 'session' | 'refresh', tokens: Map<string, TokenData | RefreshTokenData>) => {
+      for (const [tokenHash, data] of tokens.entries()) {
+        if (stale.length < limit && data.keyId !== keyId && !skip.includes(tokenHash)) {
+          stale.push({ kind, tokenHash, accessToken: data.accessToken, upstreamRefreshToken: data.upstreamRefreshToken, keyId: data.keyId });
+        }
+      }
+    };
+    collect('session', this._tokens);
+    collect('refresh', this._refreshTokens);
+    return stale;
+  }
+
+  async updateUpstreamToken(stale: StoredUpstreamToken, sealed: SealedUpstreamToken): Promise<boolean> {
+    const data = stale.kind === 'session' ? this._tokens.get(stale.tokenHash) : this._refreshTokens.get(stale.tokenHash);
+    if (!data || data.keyId !== stale.keyId || data.accessToken !== stale.accessToken) {
+      return false;
+    }
+    data.accessToken = sealed.accessToken;
+    data.upstreamRefreshToken = sealed.upstreamRefreshToken;
+    data.keyId = sealed.keyId;
+    return true;
+  }
+}
@@ -1,39 +1,104 @@
-import { randomBytes } from 'crypto';
+import { createHash, randomBytes } from 'crypto';
+import path from 'path';
+import { InMemoryTokenStorage, RefreshTokenData, TokenData, TokenStorage } from './TokenStorage.js';
+import { SqliteTokenStorage } from './SqliteTokenStorage.js';
+import { loadTokenCipher, TokenCipher } from './TokenCipher.js';
+import { UpstreamUserInfo } from './UpstreamIdentityProvider.js';
+import { createLogger } from '../../shared/logger.js';
+
+const logger = createLogger('auth.tokens');
+
+const currentDir = path.dirname(new URL(import.meta.url).pathname);
+const DEFAULT_TOKEN_DB_FILE = path.join(currentDir, '.auth/tokens.db');
+const DEFAULT_REFRESH_TOKEN_LIFETIME_SECONDS = 30 * 24 * 60 * 60; // 30 days
+const REENCRYPTION_BATCH_SIZE = 100;
+
+/**
+ * Tokens of the upstream identity provider that a token family was issued for
+ */
+export interface UpstreamCredential {
+  accessToken: string;
+  refreshToken?: string;
+  // When the access token expires (ms since epoch); undefined when it does not expire
+  expiresAt?: number;
+}
 
 /**
  * Token store to manage mapping between MCP session tokens and Entra ID tokens
  */
 export class TokenStore {
-  private _tokens: Map<string, {
-    accessToken: string;
-    expiresAt: number;
-    clientId: string;
-    scopes: string[];
-    clientCodeChallenge?: string;
-    clientCodeChallengeMethod?: string;
-  }> = new Map();
+  private _storage: TokenStorage;
+  private _cipher?: TokenCipher;
+
+  /**
+   * Upstream tokens are encrypted at rest with the cipher, or stored in plaintext without one
+   */
+  constructor(storage: TokenStorage = new InMemoryTokenStorage(), cipher?: TokenCipher) {
+    this._storage = storage;
+    this._cipher = cipher;
+  }
 
   /**
-   * Store an Entra ID token and return a session token
+   * Tokens are looked up by hash, so storage never holds a usable bearer token
    */
-  storeToken(
-    accessToken: string,
-    refreshToken: string,
+  private _hash(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private _seal(accessToken: string, upstreamRefreshToken?: string): { accessToken: string; upstreamRefreshToken?: string; keyId?: string } {
+    if (!this._cipher) {
+      return { accessToken, upstreamRefreshToken };
+    }
+    return {
+      accessToken: this._cipher.encrypt(accessToken),
+      upstreamRefreshToken: upstreamRefreshToken && this._cipher.encrypt(upstreamRefreshToken),
+      keyId: this._cipher.activeKeyId,
+    };
+  }
+
+  private _open<T extends { accessToken: string; upstreamRefreshToken?: string; keyId?: string }>(data: T): T {
+    if (!data.keyId) {
+      return data;
+    }
+    if (!this._cipher) {
+      throw new Error("Stored token is encrypted but no token encryption key is configured");
+    }
+    return {
+      ...data,
+      accessToken: this._cipher.decrypt(data.accessToken),
+      upstreamRefreshToken: data.upstreamRefreshToken && this._cipher.decrypt(data.upstreamRefreshToken),
+    };
+  }
+
+  /**
+   * Store an upstream credential and return a session token
+   */
+  async storeToken(
+    upstream: UpstreamCredential,
     expiresInSeconds: number = 3600,
     clientId: string,
     scopes: string[] = [],
     clientCodeChallenge?: string,
     clientCodeChallengeMethod?: string,
-  ): string {
+    familyId: string = randomBytes(16).toString('hex'),
+    user?: UpstreamUserInfo,
+    resource?: string,
+    dpopJkt?: string,
+  ): Promise<string> {
     // Generate a session token (UUID)
     const sessionToken = randomBytes(16).toString('hex');
 
     const expiresAt = Date.now() + expiresInSeconds * 1000;
-    this._tokens.set(sessionToken, {
-      accessToken,
+    await this._storage.saveToken(this._hash(sessionToken), {
+      ...this._seal(upstream.accessToken, upstream.refreshToken),
+      upstreamExpiresAt: upstream.expiresAt,
       expiresAt,
       clientId,
       scopes,
+      familyId,
+      user,
+      resource,
+      dpopJkt,
       clientCodeChallenge,
       clientCodeChallengeMethod,
     });
@@ -44,15 +109,9 @@ export class TokenStore {
   /**
    * Get token data using a session token
    */
-  getToken(sessionToken: string): {
-    accessToken: string;
-    expiresAt: number;
-    clientId: string;
-    scopes: string[];
-    clientCodeChallenge?: string;
-    clientCodeChallengeMethod?: string;
-  } | undefined {
-    const tokenData = this._tokens.get(sessionToken);
+  async getToken(sessionToken: string): Promise<TokenData | undefined> {
+    const tokenHash = this._hash(sessionToken);
+    const tokenData = await this._storage.getToken(tokenHash);
 
     if (!tokenData) {
       return undefined;
@@ -60,32 +119,169 @@ export class TokenStore {
 
     // Check if token is expired
     if (tokenData.expiresAt < Date.now()) {
-      this._tokens.delete(sessionToken);
+      await this._storage.deleteToken(tokenHash);
       return undefined;
     }
 
-    return tokenData;
+    return this._open(tokenData);
   }
 
   /**
    * Remove a token from the store
    */
-  removeToken(sessionToken: string): void {
-    this._tokens.delete(sessionToken);
+  async removeToken(sessionToken: string): Promise<void> {
+    await this._storage.deleteToken(this._hash(sessionToken));
+  }
+
+  /**
+   * Issue a refresh token for a session token, in the same token family
+   */
+  async issueRefreshToken(
+    sessionToken: string,
+    scopes?: string[],
+    expiresInSeconds: number = DEFAULT_REFRESH_TOKEN_LIFETIME_SECONDS,
+  ): Promise<string> {
+    const tokenData = await this.getToken(sessionToken);
+    if (!tokenData) {
+      throw new Error("Cannot issue refresh token: session token not found");
+    }
+
+    const refreshToken = randomBytes(32).toString('hex');
+    await this._storage.saveRefreshToken(this._hash(refreshToken), {
+      ...this._seal(tokenData.accessToken, tokenData.upstreamRefreshToken),
+      upstreamExpiresAt: tokenData.upstreamExpiresAt,
+      expiresAt: Date.now() + expiresInSeconds * 1000,
+      clientId: tokenData.clientId,
+      scopes: scopes ?? tokenData.scopes,
+      familyId: tokenData.familyId,
+      user: tokenData.user,
+      resource: tokenData.resource,
+      dpopJkt: tokenData.dpopJkt,
+    });
+
+    return refreshToken;
+  }
+
+  /**
+   * Get refresh token data, including refresh tokens that were already rotated
+   */
+  async getRefreshToken(refreshToken: string): Promise<RefreshTokenData | undefined> {
+    const tokenHash = this._hash(refreshToken);
+    const refreshData = await this._storage.getRefreshToken(tokenHash);
+
+    if (!refreshData) {
+      return undefined;
+    }
+
+    // Expired refresh tokens are left for the cleanExpiredTokens sweep
+    if (refreshData.expiresAt < Date.now()) {
+      return undefined;
+    }
+
+    return this._open(refreshData);
+  }
+
+  /**
+   * Mark a refresh token as used. It is kept until it expires so replays can be detected.
+   * Resolves false if another request already rotated it.
+   */
+  async markRefreshTokenRotated(refreshToken: string): Promise<boolean> {
+    return this._storage.markRefreshTokenRotated(this._hash(refreshToken), Date.now());
+  }
+
+  /**
+   * Remove every session and refresh token belonging to a token family
+   */
+  async revokeFamily(familyId: string): Promise<void> {
+    await this._storage.deleteFamily(familyId);
+  }
+
+  /**
+   * Replace the upstream credential of every session and refresh token of a token family,
+   * after the upstream access token was refreshed
+   */
+  async updateUpstreamCredential(familyId: string, upstream: UpstreamCredential): Promise<void> {
+    await this._storage.updateFamilyUpstreamTokens(familyId, {
+      ...this._seal(upstream.accessToken, upstream.refreshToken),
+      upstreamExpiresAt: upstream.expiresAt,
+    });
+  }
+
+  /**
+   * Remove every session and refresh token issued to a client
+   */
+  async revokeClientTokens(clientId: string): Promise<void> {
+    await this._storage.deleteClientTokens(clientId);
   }
 
   /**
    * Clean up expired tokens
    */
-  cleanExpiredTokens(): void {
-    const now = Date.now();
-    for (const [token, data] of this._tokens.entries()) {
-      if (data.expiresAt < now) {
-        this._tokens.delete(token);
+  async cleanExpiredTokens(): Promise<void> {
+    await this._storage.deleteExpired(Date.now());
+  }
+
+  /**
+   * Re-encrypt stored upstream tokens (including plaintext ones) with the active key, after a key rotation.
+   * Runs alongside normal traffic; records that cannot be decrypted are skipped and left as they are.
+   * @returns The number of records re-encrypted
+   */
+  async reencryptTokens(): Promise<number> {
+    if (!this._cipher) {
+      return 0;
+    }
+
+    const skipped: string[] = [];
+    let reencrypted = 0;
+    for (;;) {
+      const stale = await this._storage.listUpstreamTokensNotEncryptedWith(this._cipher.activeKeyId, REENCRYPTION_BATCH_SIZE, skipped);
+      if (stale.length === 0) {
+        return reencrypted;
+      }
+
+      for (const token of stale) {
+        try {
+          const { accessToken, upstreamRefreshToken } = this._open(token);
+          // Changed since it was listed (refreshed or deleted), so already up to date or gone
+          if (await this._storage.updateUpstreamToken(token, this._seal(accessToken, upstreamRefreshToken))) {
+            reencrypted++;
+          } else {
+            skipped.push(token.tokenHash);
+          }
+        } catch (error) {
+          logger.error(`Failed to re-encrypt stored ${token.kind} token`, { error });
+          skipped.push(token.tokenHash);
+        }
       }
     }
   }
 }
 
-// Create a singleton instance to be used throughout the app
-export const tokenStore = new TokenStore();
\ No newline at end of file
+export interface TokenStoreOptions {
+  // Where tokens are kept (defaults to the TOKEN_STORE environment variable, or sqlite)
+  storage?: 'sqlite' | 'memory';
+  // SQLite database file (defaults to TOKEN_DB_PATH, or server/auth/.auth/tokens.db)
+  dbPath?: string;
+}
+
+function createTokenStorage(options: TokenStoreOptions): TokenStorage {
+  if ((options.storage ?? process.env.TOKEN_STORE) === 'memory') {
+    return new InMemoryTokenStorage();
+  }
+  return new SqliteTokenStorage(options.dbPath || process.env.TOKEN_DB_PATH || DEFAULT_TOKEN_DB_FILE);
+}
+
+function createTokenCipher(): TokenCipher | undefined {
+  const cipher = loadTokenCipher();
+  if (!cipher) {
+    logger.warn("No token encryption key configured (TOKEN_ENCRYPTION_KEYS or TOKEN_ENCRYPTION_KEY_FILE); upstream tokens are stored in plaintext");
+  }
+  return cipher;
+}
+
+/**
+ * Token store with the given storage, encrypting upstream tokens with the keyring configured in the environment
+ */
+export function createTokenStore(options: TokenStoreOptions = {}): TokenStore {
+  return new TokenStore(createTokenStorage(options), createTokenCipher());
+}
@@ -0,0 +1,140 @@
+import { DEFAULT_GITHUB_SCOPES, GitHubIdentityProvider } from './GHIdentityProvider.js';
+import { OIDCIdentityProvider } from './OIDCIdentityProvider.js';
+import { loadGitHubAccessPolicy } from './GHAccessPolicy.js';
+import { GitHubEndpoints, loadGitHubEndpoints } from './GHEndpoints.js';
+
+/**
+ * Device authorization started with the upstream identity provider (RFC 8628 section 3.2)
+ */
+export interface UpstreamDeviceAuthorization {
+    deviceCode: string;
+    userCode: string;
+    verificationUri: string;
+    verificationUriComplete?: string;
+    expiresIn: number;
+    interval: number;
+}
+
+/**
+ * Tokens issued by the upstream identity provider once the user approves the device
+ */
+export interface UpstreamTokens {
+    accessToken: string;
+    refreshToken?: string;
+    expiresIn?: number;
+    scope?: string;
+}
+
+/**
+ * Device poll errors, normalized to the RFC 8628 error codes
+ * (authorization_pending, slow_down, access_denied, expired_token, invalid_grant, server_error)
+ */
+export interface UpstreamPollError {
+    error: string;
+    error_description: string;
+    interval?: number;
+}
+
+/**
+ * The upstream provider refused a refresh token: it expired, was already used, or the user revoked the app.
+ * The user has to sign in again.
+ */
+export interface UpstreamRefreshError {
+    error: 'invalid_grant';
+    error_description: string;
+}
+
+export interface UpstreamUserInfo {
+    id: string;
+    username: string;
+    email?: string;
+    name?: string;
+}
+
+/**
+ * An identity provider that users authenticate against, through the device authorization grant
+ * or the browser-based authorization code flow
+ */
+export interface UpstreamIdentityProvider {
+    readonly name: string;
+
+    /**
+     * Scopes requested from the upstream provider
+     */
+    readonly scopes: string[];
+
+    startDeviceAuthorization(): Promise<UpstreamDeviceAuthorization>;
+
+    pollDeviceAuthorization(deviceCode: string): Promise<UpstreamTokens | UpstreamPollError>;
+
+    /**
+     * Where to send the user's browser for the authorization code flow (PKCE S256 with the given challenge)
+     */
+    authorizationUrl(params: { redirectUri: string; state: string; codeChallenge: string }): Promise<URL>;
+
+    exchangeAuthorizationCode(code: string, redirectUri: string, codeVerifier: string): Promise<UpstreamTokens>;
+
+    /**
+     * Exchanges a refresh token for new tokens, for providers whose access tokens expire.
+     * Resolves an error when the provider refuses the refresh token, and throws when it cannot be reached
+     * or rejects this server's credentials.
+     */
+    refreshAccessToken(refreshToken: string): Promise<UpstreamTokens | UpstreamRefreshError>;
+
+    getUserInfo(accessToken: string): Promise<UpstreamUserInfo>;
+
+    /**
+     * Revokes an upstream access token. Tokens the provider no longer knows are not an error.
+     */
+    revokeToken(accessToken: string): Promise<void>;
+}
+
+/**
+ * Decides whether a signed-in upstream user may use this server
+ */
+export interface AccessPolicy {
+    isAllowed(accessToken: string, user: UpstreamUserInfo): Promise<boolean>;
+}
+
+/**
+ * Create the upstream identity provider selected by the UPSTREAM_IDP environment variable
+ * ("github" by default, or "oidc" for any OIDC provider supporting the device authorization grant).
+ * Scopes replace the provider's default upstream scopes; GitHub still adds those its access policy needs.
+ * GitHub endpoints default to those configured by GITHUB_URL, GITHUB_API_URL and GITHUB_CA_FILE, or github.com.
+ */
+export function createUpstreamIdentityProvider(
+    env: NodeJS.ProcessEnv = process.env,
+    { scopes, githubEndpoints }: { scopes?: string[], githubEndpoints?: GitHubEndpoints } = {}
+): UpstreamIdentityProvider {
+    const kind = (env.UPSTREAM_IDP || 'github').toLowerCase();
+
+    switch (kind) {
+        case 'github': {
+            const accessPolicyScopes = loadGitHubAccessPolicy(env)?.upstreamScopes ?? [];
+            const githubScopes = scopes ?? DEFAULT_GITHUB_SCOPES;
+            return new GitHubIdentityProvider({
+                clientId: requireEnv(env, 'GITHUB_CLIENT_ID'),
+                clientSecret: requireEnv(env, 'GITHUB_CLIENT_SECRET'),
+                scopes: [...new Set([...githubScopes, ...accessPolicyScopes])],
+                endpoints: githubEndpoints ?? loadGitHubEndpoints(env),
+            });
+        }
+        case 'oidc':
+            return new OIDCIdentityProvider({
+                issuer: requireEnv(env, 'OIDC_ISSUER'),
+                clientId: requireEnv(env, 'OIDC_CLIENT_ID'),
+                clientSecret: env.OIDC_CLIENT_SECRET,
+                scopes: scopes ?? env.OIDC_SCOPES?.split(' ').filter(Boolean),
+            });
+        default:
+            throw new Error(`Unknown upstream identity provider: ${kind}`);
+    }
+}
+
+function requireEnv(env: NodeJS.ProcessEnv, name: string): string {
+    const value = env[name];
+    if (!value) {
+        throw new Error(`Missing required environment variable: ${name}`);
+    }
+    return value;
+}
@@ -1,47 +1,112 @@
-import express from 'express';
-import { GitHubServerAuthProvider } from './auth/GHAuthProvider.js';
+import express, { NextFunction, Request, Response } from 'express';
+import { OAuthClientInformationFull, OAuthClientMetadataSchema } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { GitHubServerAuthProvider, InvalidTargetError } from './auth/GHAuthProvider.js';
+import { authenticateClient } from './auth/ClientAuthentication.js';
+import { dpopRequestUrl } from './auth/DPoP.js';
+import { AuthRateLimits, loadAuthRateLimits, rateLimitByClient } from './auth/RateLimits.js';
+import { InvalidClientMetadataError, InvalidRequestError, InvalidScopeError, OAuthError, ServerError } from '@modelcontextprotocol/sdk/server/auth/errors.js';
+import { createLogger } from '../shared/logger.js';
 
-export function setupDeviceFlowRoutes(authProvider: GitHubServerAuthProvider) {
+const logger = createLogger('auth.routes');
+
+export const DEVICE_CODE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+// RFC 6749 section 5.2: token errors are 400, except failed client authentication
+function statusForTokenError(error: string): number {
+    switch (error) {
+        case 'invalid_client':
+            return 401;
+        case 'server_error':
+            return 500;
+        default:
+            return 400;
+    }
+}
+
+// Key thumbprint of the DPoP proof sent with a token request (RFC 9449 section 5), or undefined for a bearer token request.
+// The response carries the nonce the client's next proof must include.
+function tokenRequestDPoPKey(authProvider: GitHubServerAuthProvider, req: Request, res: Response): string | undefined {
+    if (req.headers.dpop === undefined) {
+        return undefined;
+    }
+    res.setHeader('DPoP-Nonce', authProvider.dpop.nonce);
+    return authProvider.dpop.verify(req.headers.dpop, { method: req.method, url: dpopRequestUrl(req) });
+}
+
+export function setupDeviceFlowRoutes(authProvider: GitHubServerAuthProvider, rateLimits: AuthRateLimits = loadAuthRateLimits()) {
     const router = express.Router();
-    
-    // Device token polling endpoint
-    router.post('/device/token', async (req, res) => {
+    const clientAuthentication = authenticateClient(authProvider);
+    // Per authenticated client, so one client polling or starting device flows too often cannot get the upstream app throttled
+    const tokenRateLimit = rateLimitByClient(rateLimits.perClientToken, 'token');
+    const deviceAuthorizationRateLimit = rateLimitByClient(rateLimits.perClientDeviceAuthorization, 'device authorization');
+
+    // Device access token request (RFC 8628 section 3.4)
+    const handleDeviceTokenRequest = async (req: Request, res: Response) => {
+        res.setHeader('Cache-Control', 'no-store');
         try {
-            const { client_id, device_code } = req.body;
-            
-            if (!client_id || !device_code) {
+            const { client_id, device_code, resource } = req.body ?? {};
+            if (!device_code) {
                 return res.status(400).json({
                     error: 'invalid_request',
                     error_description: 'Missing required parameters'
                 });
             }
-            
-            // Get client information
-            const client = authProvider.clientsStore.getClient(client_id);
-            if (!client) {
-                return res.status(400).json({
-                    error: 'invalid_client',
-                    error_description: 'Client not found'
-                });
-            }
+            // Verified only once the request is well-formed, since verifying spends the proof
+            const dpopJkt = tokenRequestDPoPKey(authProvider, req, res);
             
             // Check device code status
-            const result = await authProvider.checkDeviceCodeStatus(device_code);
+            const result = await authProvider.checkDeviceCodeStatus(device_code, client_id, resource, dpopJkt);
             
             // Return result (either tokens or error information)
             if ('error' in result) {
-                return res.status(result.error === 'authorization_pending' ? 400 : 401).json(result);
+                return res.status(statusForTokenError(result.error)).json(result);
             }
             
             res.json(result);
         } catch (error) {
-            console.error("Device token error:", error);
-            res.status(500).json({
-                error: 'server_error',
-                error_description: String(error)
-            });
+            if (error instanceof OAuthError && !(error instanceof ServerError)) {
+                return res.status(400).json(error.toResponseObject());
+            }
+            logger.error("Device token error", { error });
+            res.status(500).json(new ServerError("Internal Server Error").toResponseObject());
+        }
+    };
+
+    // Refresh token request with a DPoP proof, whose key the new tokens are bound to
+    const handleDPoPRefreshRequest = async (req: Request, res: Response) => {
+        res.setHeader('Cache-Control', 'no-store');
+        try {
+            const { refresh_token, scope } = req.body;
+            if (typeof refresh_token !== 'string' || !refresh_token) {
+                throw new InvalidRequestError("Missing refresh_token parameter");
+            }
+            const dpopJkt = tokenRequestDPoPKey(authProvider, req, res);
+
+            const scopes = typeof scope === 'string' ? scope.split(' ').filter(Boolean) : undefined;
+            res.json(await authProvider.exchangeRefreshToken(req.client!, refresh_token, scopes, dpopJkt));
+        } catch (error) {
+            if (error instanceof OAuthError && !(error instanceof ServerError)) {
+                return res.status(400).json(error.toResponseObject());
+            }
+            logger.error("Refresh token error", { error });
+            res.status(500).json(new ServerError("Internal Server Error").toResponseObject());
+        }
+    };
+
+    // Standard token endpoint: answer device_code grants, and refresh_token grants with a DPoP proof
+    // (which the SDK token handler cannot pass on), here; pass every other grant on to the OAuth router
+    router.post('/token', express.urlencoded({ extended: false }), async (req: Request, res: Response, next: NextFunction) => {
+        if (req.body?.grant_type === DEVICE_CODE_GRANT_TYPE) {
+            return clientAuthentication(req, res, () => tokenRateLimit(req, res, () => handleDeviceTokenRequest(req, res)));
         }
+        if (req.body?.grant_type === 'refresh_token' && req.headers.dpop !== undefined) {
+            return clientAuthentication(req, res, () => tokenRateLimit(req, res, () => handleDPoPRefreshRequest(req, res)));
+        }
+        next();
     });
+
+    // Legacy device token polling endpoint, kept as an alias of the device_code grant
+    router.post('/device/token', express.urlencoded({ extended: false }), clientAuthentication, tokenRateLimit, handleDeviceTokenRequest);
     
     // Simple UI for activation
     router.get('/activate', (req, res) => {
@@ -75,41 +140,172 @@ export function setupDeviceFlowRoutes(authProvider: GitHubServerAuthProvider) {
     });
     
     // Device authorization endpoint
-    router.post('/device/authorize', async (req, res) => {
+    router.post('/device/authorize', express.urlencoded({ extended: false }), clientAuthentication, deviceAuthorizationRateLimit, async (req, res) => {
         try {
-            const { client_id } = req.body;
-            console.log('Device authorize request received'); 
+            const { scope, resource } = req.body;
+            logger.info("Device authorize request received", { client_id: req.client!.client_id });
+            
+            // Initiate device flow with the MCP scopes the client asked for (space-delimited, optional)
+            const requestedScopes = typeof scope === 'string' ? scope.split(' ').filter(Boolean) : undefined;
+            // and for the resource (RFC 8707) it names, or the default resource
+            const deviceAuthData = await authProvider.initiateDeviceFlow(req.client!, requestedScopes, resource);
             
-            if (!client_id) {
-                console.log('Missing client_id in request');
+            res.json(deviceAuthData);
+        } catch (error) {
+            if (error instanceof InvalidScopeError || error instanceof InvalidTargetError) {
+                return res.status(400).json(error.toResponseObject());
+            }
+            logger.error("Device authorization error", { error });
+            res.status(500).json(new ServerError("Internal Server Error").toResponseObject());
+        }
+    });
+    
+    return router;
+}
+
+export function setupAuthorizationCallbackRoutes(authProvider: GitHubServerAuthProvider) {
+    const router = express.Router();
+
+    // Upstream identity provider redirects here after the user signs in during the browser flow
+    router.get('/callback', async (req, res) => {
+        try {
+            const { code, state, error, error_description } = req.query;
+            const redirectUrl = await authProvider.handleAuthorizationCallback({
+                code: typeof code === 'string' ? code : undefined,
+                state: typeof state === 'string' ? state : undefined,
+                error: typeof error === 'string' ? error : undefined,
+                error_description: typeof error_description === 'string' ? error_description : undefined
+            });
+            res.redirect(302, redirectUrl);
+        } catch (error) {
+            if (error instanceof OAuthError && !(error instanceof ServerError)) {
+                return res.status(400).json(error.toResponseObject());
+            }
+            logger.error("Authorization callback error", { error });
+            res.status(500).json(new ServerError("Internal Server Error").toResponseObject());
+        }
+    });
+
+    return router;
+}
+
+// RFC 7592 client configuration endpoints, authenticated with the registration access token issued at registration
+export function setupClientManagementRoutes(authProvider: GitHubServerAuthProvider) {
+    const router = express.Router();
+
+    // Resolves the client the request is authorized to manage, or responds with 401
+    const authenticate = async (req: Request, res: Response): Promise<{ client: OAuthClientInformationFull, token: string } | undefined> => {
+        const [type, token] = (req.headers.authorization ?? '').split(' ');
+        const client = type?.toLowerCase() === 'bearer' && token
+            ? await authProvider.authenticateClientRegistration(req.params.client_id, token)
+            : undefined;
+
+        if (!client) {
+            // An unknown client gets the same response as a bad token, so client IDs cannot be probed
+            res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+            res.status(401).json({
+                error: 'invalid_token',
+                error_description: 'Invalid registration access token'
+            });
+            return undefined;
+        }
+        return { client, token };
+    };
+
+    router.get('/register/:client_id', async (req, res) => {
+        res.setHeader('Cache-Control', 'no-store');
+        try {
+            const auth = await authenticate(req, res);
+            if (!auth) {
+                return;
+            }
+            res.json(authProvider.getClientConfiguration(auth.client, auth.token));
+        } catch (error) {
+            logger.error("Client configuration read error", { error });
+            res.status(500).json({
+                error: 'server_error',
+                error_description: 'Internal Server Error'
+            });
+        }
+    });
+
+    router.put('/register/:client_id', express.json(), async (req, res) => {
+        res.setHeader('Cache-Control', 'no-store');
+        try {
+            const auth = await authenticate(req, res);
+            if (!auth) {
+                return;
+            }
+
+            const { client_id, client_secret } = req.body ?? {};
+            if (client_id !== auth.client.client_id) {
                 return res.status(400).json({
                     error: 'invalid_request',
-                    error_description: 'Missing client_id parameter'
+                    error_description: 'client_id does not match the client being updated'
                 });
             }
-            
-            // Get client information
-            const client = authProvider.clientsStore.getClient(client_id);
-            if (!client) {
-                console.log('Client not found:', client_id);
+            if (client_secret !== undefined && !await authProvider.verifyClientSecret(auth.client.client_id, String(client_secret))) {
                 return res.status(400).json({
-                    error: 'invalid_client',
-                    error_description: 'Client not found'
+                    error: 'invalid_request',
+                    error_description: 'client_secret cannot be changed'
                 });
             }
-            
-            // Initiate device flow
-            const deviceAuthData = await authProvider.initiateDeviceFlow(client_id);
-            
-            res.json(deviceAuthData);
+
+            const parseResult = OAuthClientMetadataSchema.safeParse(req.body);
+            if (!parseResult.success) {
+                return res.status(400).json({
+                    error: 'invalid_client_metadata',
+                    error_description: parseResult.error.message
+                });
+            }
+
+            res.json(await authProvider.updateClientConfiguration(auth.client, parseResult.data, auth.token));
         } catch (error) {
-            console.error("Device authorization error:", error);
+            if (error instanceof InvalidClientMetadataError) {
+                return res.status(400).json(error.toResponseObject());
+            }
+            logger.error("Client configuration update error", { error });
             res.status(500).json({
                 error: 'server_error',
-                error_description: String(error)
+                error_description: 'Internal Server Error'
             });
         }
     });
-    
+
+    router.delete('/register/:client_id', async (req, res) => {
+        try {
+            const auth = await authenticate(req, res);
+            if (!auth) {
+                return;
+            }
+            await authProvider.deleteClientConfiguration(auth.client);
+            res.status(204).end();
+        } catch (error) {
+            logger.error("Client configuration delete error", { error });
+            res.status(500).json({
+                error: 'server_error',
+                error_description: 'Internal Server Error'
+            });
+        }
+    });
+
+    return router;
+}
+
+// Keys that verify JWT access tokens, for resource servers (RFC 7517); only mounted when JWT access tokens are issued
+export function setupJwksRoutes(authProvider: GitHubServerAuthProvider) {
+    const router = express.Router();
+
+    router.get('/.well-known/jwks.json', (req, res) => {
+        const jwks = authProvider.jwks;
+        if (!jwks) {
+            res.status(404).end();
+            return;
+        }
+        // Short cache, so resource servers pick up a new key soon after a rotation
+        res.setHeader('Cache-Control', 'public, max-age=300');
+        res.json(jwks);
+    });
+
     return router;
-} 
\ No newline at end of file
+}
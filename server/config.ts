@@ -0,0 +1,156 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+
+const currentDir = path.dirname(new URL(import.meta.url).pathname);
+const DEFAULT_CONFIG_FILE = path.join(currentDir, 'config.json');
+
+const httpUrl = z.string().url().refine(url => /^https?:$/.test(new URL(url).protocol), 'Must be an http or https URL');
+const filePath = z.string().min(1).transform(file => path.resolve(file));
+const scopeList = z.array(z.string().regex(/^[^\s]+$/, 'Scopes cannot contain spaces')).nonempty();
+
+/**
+ * Deployment settings of the server. Secrets (upstream client secret, token encryption keys) stay in the environment.
+ */
+const ServerConfigSchema = z.object({
+  // Port the HTTP server listens on
+  port: z.coerce.number().int().min(1).max(65535).default(3000),
+  // Issuer URL of the authorization server, which is also the public base URL of the MCP endpoint
+  // (defaults to http://localhost on the port)
+  issuerUrl: httpUrl.optional(),
+  // Published as service_documentation in the authorization server metadata
+  serviceDocumentationUrl: httpUrl.optional(),
+  // Resources (RFC 8707) tokens can be issued for, the first one being the default (defaults to /mcp on the issuer,
+  // which must be listed)
+  resources: z.array(httpUrl).nonempty().optional(),
+  accessTokenLifetimeSeconds: z.coerce.number().int().positive().default(3600),
+  accessTokenFormat: z.enum(['opaque', 'jwt']).default('opaque'),
+  // How often the signing keys of JWT access tokens rotate
+  jwtKeyRotationDays: z.coerce.number().int().positive().default(30),
+  // How often the access policy is checked again while a token family is in use
+  accessRecheckIntervalSeconds: z.coerce.number().int().positive().default(15 * 60),
+  // Delete registered clients that have not been used for this many days; 0 keeps them forever
+  staleClientLifetimeDays: z.coerce.number().int().min(0).default(0),
+  // Also revoke the stored upstream access token when an MCP token is revoked
+  revokeUpstreamTokens: z.boolean().default(false),
+  // Scopes requested from the upstream identity provider, replacing its defaults
+  upstreamScopes: scopeList.optional(),
+  // GitHub instance users sign in with: github.com by default, or a GitHub Enterprise Server
+  github: z.object({
+    // e.g. https://github.example.com
+    webUrl: httpUrl.optional(),
+    // Defaults to https://api.github.com for github.com, or <webUrl>/api/v3
+    apiUrl: httpUrl.optional(),
+    // PEM bundle of the certificate authorities that signed the server's certificate
+    caFile: filePath.optional(),
+  }).strict().default({}),
+  // Files the server keeps its state in; relative paths are resolved against the working directory.
+  // Unset paths default to server/auth/.auth/
+  storage: z.object({
+    clientsDbPath: filePath.optional(),
+    tokenStore: z.enum(['sqlite', 'memory']).default('sqlite'),
+    tokenDbPath: filePath.optional(),
+    jwtKeysPath: filePath.optional(),
+    auditLogPath: filePath.optional(),
+  }).strict().default({}),
+}).strict().transform(config => ({ ...config, issuerUrl: config.issuerUrl ?? `http://localhost:${config.port}` }))
+  .superRefine((config, ctx) => {
+    // Tokens for any other resource would be rejected by the MCP endpoint
+    const mcpResource = mcpResourceUrl(config.issuerUrl).href;
+    if (config.resources && !config.resources.includes(mcpResource)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['resources'], message: `Must include the MCP endpoint ${mcpResource}` });
+    }
+  });
+
+export type ServerConfig = z.output<typeof ServerConfigSchema>;
+
+/**
+ * The MCP endpoint, served at /mcp on the issuer, as the protected resource tokens are issued for
+ */
+export const mcpResourceUrl = (issuerUrl: string | URL): URL => new URL('/mcp', issuerUrl);
+
+/**
+ * The configuration file or environment holds invalid settings
+ */
+export class ConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConfigError';
+  }
+}
+
+// Environment variables overriding settings of the configuration file
+const ENV_OVERRIDES: [string, string[], (value: string) => unknown][] = [
+  ['PORT', ['port'], value => value],
+  ['ISSUER_URL', ['issuerUrl'], value => value],
+  ['SERVICE_DOCUMENTATION_URL', ['serviceDocumentationUrl'], value => value],
+  ['MCP_RESOURCES', ['resources'], value => value.split(',').map(resource => resource.trim()).filter(Boolean)],
+  ['ACCESS_TOKEN_LIFETIME_SECONDS', ['accessTokenLifetimeSeconds'], value => value],
+  ['ACCESS_TOKEN_FORMAT', ['accessTokenFormat'], value => value],
+  ['JWT_KEY_ROTATION_DAYS', ['jwtKeyRotationDays'], value => value],
+  ['ACCESS_RECHECK_INTERVAL_SECONDS', ['accessRecheckIntervalSeconds'], value => value],
+  ['STALE_CLIENT_LIFETIME_DAYS', ['staleClientLifetimeDays'], value => value],
+  // Anything but true or false is passed on as is, for validation to reject
+  ['GITHUB_REVOKE_UPSTREAM_TOKENS', ['revokeUpstreamTokens'], value => value === 'true' ? true : value === 'false' ? false : value],
+  ['UPSTREAM_SCOPES', ['upstreamScopes'], value => value.split(' ').filter(Boolean)],
+  ['GITHUB_URL', ['github', 'webUrl'], value => value],
+  ['GITHUB_API_URL', ['github', 'apiUrl'], value => value],
+  ['GITHUB_CA_FILE', ['github', 'caFile'], value => value],
+  ['CLIENTS_DB_PATH', ['storage', 'clientsDbPath'], value => value],
+  ['TOKEN_STORE', ['storage', 'tokenStore'], value => value],
+  ['TOKEN_DB_PATH', ['storage', 'tokenDbPath'], value => value],
+  ['JWT_KEYS_PATH', ['storage', 'jwtKeysPath'], value => value],
+  ['AUDIT_LOG_PATH', ['storage', 'auditLogPath'], value => value],
+];
+
+/**
+ * Loads the configuration from the JSON file at CONFIG_FILE (default server/config.json, if it exists),
+ * overrides it with the environment and validates it
+ */
+export const loadServerConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  const configFile = env.CONFIG_FILE || DEFAULT_CONFIG_FILE;
+  const sources: string[] = [];
+  let settings: Record<string, unknown> = {};
+
+  if (env.CONFIG_FILE || existsSync(configFile)) {
+    try {
+      settings = JSON.parse(readFileSync(configFile, 'utf8'));
+    } catch (error) {
+      throw new ConfigError(`Cannot read configuration file ${configFile}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (typeof settings !== 'object' || settings === null || Array.isArray(settings)) {
+      throw new ConfigError(`Configuration file ${configFile} must hold a JSON object`);
+    }
+    sources.push(configFile);
+  }
+
+  const envNames = new Map<string, string>();
+  for (const [name, [section, key], parse] of ENV_OVERRIDES) {
+    const value = env[name];
+    if (!value) {
+      continue;
+    }
+    if (key) {
+      const nested = settings[section];
+      settings = { ...settings, [section]: { ...(typeof nested === 'object' && nested !== null ? nested : {}), [key]: parse(value) } };
+      envNames.set(`${section}.${key}`, name);
+    } else {
+      settings = { ...settings, [section]: parse(value) };
+      envNames.set(section, name);
+    }
+  }
+  if (envNames.size > 0) {
+    sources.push('environment');
+  }
+
+  const result = ServerConfigSchema.safeParse(settings);
+  if (!result.success) {
+    const problems = result.error.issues.map(issue => {
+      const setting = issue.path.filter(part => typeof part === 'string').join('.');
+      const envName = envNames.get(setting);
+      return `  - ${setting || 'configuration'}${envName ? ` (${envName})` : ''}: ${issue.message}`;
+    });
+    throw new ConfigError(`Invalid configuration${sources.length > 0 ? ` from ${sources.join(' and ')}` : ''}:\n${problems.join('\n')}`);
+  }
+  return result.data;
+};
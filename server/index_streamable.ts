@@ -1,51 +1,175 @@
+// Load .env before any module reads its configuration
+import 'dotenv/config';
 import express, { Request, Response } from 'express';
 import { randomUUID } from 'node:crypto';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
-import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { metadataHandler } from "@modelcontextprotocol/sdk/server/auth/handlers/metadata.js";
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import { InMemoryEventStore } from './InMemoryEventStore.js';
-import { createServer } from './streamableHTTP_server.js'; 
+import { createServer, MCP_SCOPES } from './streamableHTTP_server.js'; 
 import { GitHubServerAuthProvider } from './auth/GHAuthProvider.js';
-import { githubAuthRouter } from './auth/GHAuthRouter.js';
-import { setupDeviceFlowRoutes } from './auth_routes.js';
+import { authorizationServerMetadata, AuthRouterOptions, githubAuthRouter } from './auth/GHAuthRouter.js';
+import { protectedResourceMetadataHandler, requireBearerAuth } from './auth/ProtectedResource.js';
+import { DPOP_SIGNING_ALGORITHMS } from './auth/DPoP.js';
+import { loadAuthRateLimits, rateLimitByIp } from './auth/RateLimits.js';
+import { DEFAULT_MCP_SCOPES } from './mcp_scopes.js';
+import { getAuthenticatedUser } from './mcp_identity.js';
+import { auditLog } from './auth/AuditLog.js';
+import { createLogger, requestIdMiddleware } from '../shared/logger.js';
+import { ConfigError, loadServerConfig, mcpResourceUrl, ServerConfig } from './config.js';
+import { createUpstreamIdentityProvider } from './auth/UpstreamIdentityProvider.js';
+import { createTokenStore, TokenStore } from './auth/TokenStore.js';
+import { GitHubEndpoints } from './auth/GHEndpoints.js';
+import { setupAuthorizationCallbackRoutes, setupClientManagementRoutes, setupDeviceFlowRoutes, setupJwksRoutes } from './auth_routes.js';
 
+const logger = createLogger('http');
+
+// Deployment settings from server/config.json (or CONFIG_FILE) and the environment
+let config: ServerConfig;
+let githubEndpoints: GitHubEndpoints;
+let tokenStore: TokenStore;
+try {
+  config = loadServerConfig();
+  githubEndpoints = new GitHubEndpoints(config.github);
+  // Loads the token encryption keyring, which may be misconfigured too
+  tokenStore = createTokenStore({ storage: config.storage.tokenStore, dbPath: config.storage.tokenDbPath });
+} catch (error) {
+  if (error instanceof ConfigError) {
+    logger.error(error.message);
+    process.exit(1);
+  }
+  throw error;
+}
+if (config.storage.auditLogPath) {
+  auditLog.useFile(config.storage.auditLogPath);
+}
 
 // Create an MCP server with implementation details
 const server = createServer();
 
+const issuerUrl = new URL(config.issuerUrl);
+// The MCP endpoint, as a protected resource (RFC 9728)
+const resourceUrl = mcpResourceUrl(issuerUrl);
+const resourceMetadataUrl = new URL('/.well-known/oauth-protected-resource', issuerUrl);
+
 // Initialize the GitHub server auth provider
-const provider = new GitHubServerAuthProvider();
+const provider = new GitHubServerAuthProvider({
+    issuerUrl,
+    callbackUrl: new URL('/auth/callback', issuerUrl),
+    registrationUrl: new URL('/auth/register', issuerUrl),
+    upstreamProvider: createUpstreamIdentityProvider(process.env, {
+        scopes: config.upstreamScopes,
+        githubEndpoints
+    }),
+    revokeUpstreamTokens: config.revokeUpstreamTokens,
+    accessRecheckIntervalSeconds: config.accessRecheckIntervalSeconds,
+    scopesSupported: MCP_SCOPES,
+    resources: config.resources,
+    clientsDbPath: config.storage.clientsDbPath,
+    tokenStore,
+    accessTokenLifetimeSeconds: config.accessTokenLifetimeSeconds,
+    staleClientLifetimeDays: config.staleClientLifetimeDays,
+    accessTokenFormat: config.accessTokenFormat,
+    jwtKeysPath: config.storage.jwtKeysPath,
+    jwtKeyRotationDays: config.jwtKeyRotationDays,
+    onFamilyRevoked: familyId => closeFamilySessions(familyId)
+});
 
 const app = express();
+// Tag every log line written while handling a request with its ID
+app.use(requestIdMiddleware());
 app.use(express.json());
 
-// Add request logging
+// Add request logging; the query string can carry codes and state, so only the path is logged
 app.use((req, res, next) => {
-    console.log(`${new Date().toISOString()} ${req.method} ${req.url}`);
+    logger.info('Request received', { method: req.method, path: req.path });
     next();
 });
 
+// Every auth endpoint is limited per IP address, ahead of the per-client limits of the device and token endpoints
+const authRateLimits = loadAuthRateLimits();
+app.use('/auth', rateLimitByIp(authRateLimits.perIp, 'auth'));
+
 // Mount device flow routes first
-app.use('/auth', setupDeviceFlowRoutes(provider));
+app.use('/auth', setupDeviceFlowRoutes(provider, authRateLimits));
+
+// Browser flow: upstream identity provider redirects back here
+app.use('/auth', setupAuthorizationCallbackRoutes(provider));
+
+// Client configuration endpoints (RFC 7592), ahead of the registration endpoint which only accepts POST
+app.use('/auth', setupClientManagementRoutes(provider));
 
 // Mount the GitHub auth router (this will add registration and other OAuth endpoints)
-app.use('/auth', githubAuthRouter({
+const authRouterOptions: AuthRouterOptions = {
     provider: provider,
-    issuerUrl: new URL('http://localhost:3000'),
-    serviceDocumentationUrl: new URL('https://example.com'),
+    issuerUrl: issuerUrl,
+    baseUrl: new URL('/auth', issuerUrl),
+    serviceDocumentationUrl: config.serviceDocumentationUrl ? new URL(config.serviceDocumentationUrl) : undefined,
+    scopesSupported: provider.scopesSupported,
+    jwksUri: provider.jwks ? new URL('/.well-known/jwks.json', issuerUrl) : undefined,
+    dpopSigningAlgorithms: DPOP_SIGNING_ALGORITHMS,
+    rateLimits: authRateLimits,
     authorizationOptions: {},
     tokenOptions: {}
-}));
+};
+app.use('/auth', githubAuthRouter(authRouterOptions));
+
+// Metadata is also served where clients look for it given the issuer URL (RFC 8414 section 3)
+app.use('/.well-known/oauth-authorization-server', metadataHandler(authorizationServerMetadata(authRouterOptions)));
+
+// Tells MCP clients which authorization server issues tokens for /mcp; the second path is the RFC 9728 location for /mcp
+const mcpResourceMetadata = protectedResourceMetadataHandler({
+    resource: resourceUrl.href,
+    authorization_servers: [issuerUrl.href],
+    scopes_supported: MCP_SCOPES,
+    bearer_methods_supported: ['header'],
+    dpop_signing_alg_values_supported: DPOP_SIGNING_ALGORITHMS
+});
+app.use('/.well-known/oauth-protected-resource/mcp', mcpResourceMetadata);
+app.use('/.well-known/oauth-protected-resource', mcpResourceMetadata);
+
+// Signing keys of JWT access tokens
+app.use(setupJwksRoutes(provider));
+
+// Tokens need some MCP scope here; tools, prompts and resources check for their own scope themselves.
+// DPoP-bound tokens are checked against a proof with every request.
+const bearerAuth = requireBearerAuth({
+    provider,
+    resourceMetadataUrl,
+    resource: resourceUrl,
+    acceptedScopes: MCP_SCOPES,
+    challengeScopes: DEFAULT_MCP_SCOPES,
+    dpop: provider.dpop
+});
 
 // Map to store transports by session ID
 const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
+// Token family of the access token each session was opened with
+const sessionFamilies: { [sessionId: string]: string } = {};
+
+/**
+ * Ends the sessions opened with tokens of a family that has been revoked, e.g. because the upstream provider
+ * refused to refresh the user's token
+ */
+function closeFamilySessions(familyId: string): void {
+  for (const [sessionId, sessionFamilyId] of Object.entries(sessionFamilies)) {
+    if (sessionFamilyId === familyId && transports[sessionId]) {
+      logger.info('Token family revoked, closing session', { session_id: sessionId });
+      // Closing removes the session from the transports map
+      transports[sessionId].close().catch(error => {
+        logger.error('Error closing session', { session_id: sessionId, error });
+      });
+    }
+  }
+}
 
 
 // Modern Streamable HTTP endpoint: Handle MCP requests
 app.post('/mcp', 
-  requireBearerAuth({ provider, requiredScopes: ["read:user", "user:email"]}),
+  bearerAuth,
   async (req: Request, res: Response) => {
-  console.log('Received MCP request:', req.body);
+  // Only the JSON-RPC method, since bodies carry tool arguments and results
+  logger.debug('Received MCP request', { rpc_method: req.body?.method, rpc_id: req.body?.id });
   try {
     // Check for existing session ID
     const sessionId = req.headers['mcp-session-id'] as string | undefined;
@@ -57,23 +181,43 @@ app.post('/mcp',
     } else if (!sessionId && isInitializeRequest(req.body)) {
       // New initialization request
       const eventStore = new InMemoryEventStore();
+      const authInfo = req.auth;
       transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: () => randomUUID(),
         eventStore, // Enable resumability
         onsessioninitialized: (sessionId) => {
           // Store the transport by session ID when session is initialized
           // This avoids race conditions where requests might come in before the session is stored
-          console.log(`Session initialized with ID: ${sessionId}`);
+          logger.info('Session initialized', { session_id: sessionId });
           transports[sessionId] = transport;
+          const familyId = authInfo?.extra?.familyId;
+          if (typeof familyId === 'string') {
+            sessionFamilies[sessionId] = familyId;
+          }
+          auditLog.record({
+            event: 'mcp.session_opened',
+            outcome: 'success',
+            actor: getAuthenticatedUser(authInfo),
+            clientId: authInfo?.clientId,
+            details: { session_id: sessionId }
+          });
         }
       });
 
-      // Set up onclose handler to clean up transport when closed
-      transport.onclose = () => {
+      // Clean up the transport when it closes, e.g. when the client deletes the session
+      const removeSession = () => {
         const sid = transport.sessionId;
         if (sid && transports[sid]) {
-          console.log(`Transport closed for session ${sid}, removing from transports map`);
+          logger.info('Transport closed, removing from transports map', { session_id: sid });
           delete transports[sid];
+          delete sessionFamilies[sid];
+          auditLog.record({
+            event: 'mcp.session_closed',
+            outcome: 'success',
+            actor: getAuthenticatedUser(authInfo),
+            clientId: authInfo?.clientId,
+            details: { session_id: sid }
+          });
         }
       };
 
@@ -81,6 +225,13 @@ app.post('/mcp',
       // so responses can flow back through the same transport
       await server.connect(transport);
 
+      // connect() replaces the transport's onclose with the server's own, so chain onto it afterwards
+      const serverOnClose = transport.onclose;
+      transport.onclose = () => {
+        serverOnClose?.();
+        removeSession();
+      };
+
       await transport.handleRequest(req, res, req.body);
       return; // Already handled
     } else {
@@ -100,7 +251,7 @@ app.post('/mcp',
     // The existing transport is already connected to the server
     await transport.handleRequest(req, res, req.body);
   } catch (error) {
-    console.error('Error handling MCP request:', error);
+    logger.error('Error handling MCP request', { error });
     if (!res.headersSent) {
       res.status(500).json({
         jsonrpc: '2.0',
@@ -116,7 +267,7 @@ app.post('/mcp',
 
 // Add this handler for GET requests to /mcp
 app.get('/mcp', 
-  requireBearerAuth({ provider, requiredScopes: ["read:user", "user:email"]}),
+  bearerAuth,
   async (req: Request, res: Response) => {
     const sessionId = req.headers['mcp-session-id'] as string | undefined;
     if (!sessionId || !transports[sessionId]) {
@@ -130,7 +281,7 @@ app.get('/mcp',
 
 // Legacy SSE for older clients: Handle GET requests for SSE streams (using built-in support from StreamableHTTP)
 app.get('/sse', 
-  requireBearerAuth({ provider, requiredScopes: ["read:user", "user:email"]}),
+  bearerAuth,
   async (req: Request, res: Response) => {
   const sessionId = req.headers['mcp-session-id'] as string | undefined;
   if (!sessionId || !transports[sessionId]) {
@@ -141,9 +292,9 @@ app.get('/sse',
   // Check for Last-Event-ID header for resumability
   const lastEventId = req.headers['last-event-id'] as string | undefined;
   if (lastEventId) {
-    console.log(`Client reconnecting with Last-Event-ID: ${lastEventId}`);
+    logger.info('Client reconnecting', { session_id: sessionId, last_event_id: lastEventId });
   } else {
-    console.log(`Establishing new SSE stream for session ${sessionId}`);
+    logger.info('Establishing new SSE stream', { session_id: sessionId });
   }
 
   const transport = transports[sessionId];
@@ -155,7 +306,7 @@ app.get('/sse',
 
 // Handle DELETE requests for session termination (according to MCP spec)
 app.delete('/mcp', 
-  requireBearerAuth({ provider, requiredScopes: ["read:user", "user:email"]}),
+  bearerAuth,
   async (req: Request, res: Response) => {
   const sessionId = req.headers['mcp-session-id'] as string | undefined;
   if (!sessionId || !transports[sessionId]) {
@@ -163,39 +314,40 @@ app.delete('/mcp',
     return;
   }
 
-  console.log(`Received session termination request for session ${sessionId}`);
+  logger.info('Received session termination request', { session_id: sessionId });
 
   try {
     const transport = transports[sessionId];
     await transport.handleRequest(req, res);
   } catch (error) {
-    console.error('Error handling session termination:', error);
+    logger.error('Error handling session termination', { error });
     if (!res.headersSent) {
       res.status(500).send('Error processing session termination');
     }
   }
 });
 
-// Start the server
-const PORT = 3000;
+// Start the server once the client registry is ready
+const PORT = config.port;
+await provider.ready();
 app.listen(PORT, () => {
-  console.log(`MCP Streamable HTTP Server listening on port ${PORT}`);
+  logger.info(`MCP Streamable HTTP Server listening on port ${PORT}`);
 });
 
 // Handle server shutdown
 process.on('SIGINT', async () => {
-  console.log('Shutting down server...');
+  logger.info('Shutting down server...');
 
   // Close all active transports to properly clean up resources
   for (const sessionId in transports) {
     try {
-      console.log(`Closing transport for session ${sessionId}`);
+      logger.info('Closing transport', { session_id: sessionId });
       await transports[sessionId].close();
       delete transports[sessionId];
     } catch (error) {
-      console.error(`Error closing transport for session ${sessionId}:`, error);
+      logger.error('Error closing transport', { session_id: sessionId, error });
     }
   }
-  console.log('Server shutdown complete');
+  logger.info('Server shutdown complete');
   process.exit(0);
 });
\ No newline at end of file
@@ -0,0 +1,37 @@
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { UpstreamUserInfo } from './auth/UpstreamIdentityProvider.js';
+import { auditLog } from './auth/AuditLog.js';
+
+/**
+ * The signed-in user behind an MCP request, as stored with its access token.
+ * Undefined for tokens issued before user profiles were recorded.
+ */
+export const getAuthenticatedUser = (authInfo?: AuthInfo): UpstreamUserInfo | undefined => {
+  const user = authInfo?.extra?.user as UpstreamUserInfo | undefined;
+  return user?.id ? user : undefined;
+};
+
+/**
+ * Short description of who is calling, for logs
+ */
+export const describeCaller = (authInfo?: AuthInfo): string => {
+  if (!authInfo) {
+    return 'unauthenticated';
+  }
+  const user = getAuthenticatedUser(authInfo);
+  const who = user ? `user=${user.username} (${user.id})` : 'user=unknown';
+  return `${who} client=${authInfo.clientId}`;
+};
+
+/**
+ * Records an access decision on an MCP request, attributed to the calling user
+ */
+export const auditMcpAccess = (authInfo: AuthInfo | undefined, target: string, allowed: boolean): void => {
+  auditLog.record({
+    event: 'mcp.access',
+    outcome: allowed ? 'success' : 'failure',
+    actor: getAuthenticatedUser(authInfo),
+    clientId: authInfo?.clientId,
+    details: { target }
+  });
+};
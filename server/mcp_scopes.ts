@@ -0,0 +1,39 @@
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { auditMcpAccess } from './mcp_identity.js';
+
+// Scopes of MCP session tokens, independent of the scopes requested from the upstream identity provider
+export const ALL_TOOLS_SCOPE = 'tools:*';
+export const PROMPTS_READ_SCOPE = 'prompts:read';
+export const RESOURCES_READ_SCOPE = 'resources:read';
+
+// Granted when a client asks for no scope and did not register one
+export const DEFAULT_MCP_SCOPES = [ALL_TOOLS_SCOPE, PROMPTS_READ_SCOPE, RESOURCES_READ_SCOPE];
+
+/**
+ * Scope that allows calling a single tool
+ */
+export const toolScope = (toolName: string): string => `tools:${toolName}`;
+
+/**
+ * Whether the granted scopes include the required one; tools:* covers every tool scope
+ */
+export const hasScope = (granted: string[], required: string): boolean => {
+  if (granted.includes(required)) {
+    return true;
+  }
+  return required.startsWith('tools:') && granted.includes(ALL_TOOLS_SCOPE);
+};
+
+/**
+ * Rejects an MCP request whose access token lacks the required scope, auditing the decision
+ * against the calling user. target names what is accessed, e.g. "tool greet".
+ */
+export const requireScope = (extra: { authInfo?: AuthInfo }, required: string, target: string): void => {
+  const granted = extra.authInfo?.scopes ?? [];
+  const allowed = hasScope(granted, required);
+  auditMcpAccess(extra.authInfo, target, allowed);
+  if (!allowed) {
+    throw new McpError(ErrorCode.InvalidRequest, `Insufficient scope: this request requires the "${required}" scope`);
+  }
+};
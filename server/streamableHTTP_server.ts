@@ -1,6 +1,22 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import { CallToolResult, GetPromptResult, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { ALL_TOOLS_SCOPE, PROMPTS_READ_SCOPE, requireScope, RESOURCES_READ_SCOPE, toolScope } from './mcp_scopes.js';
+import { getAuthenticatedUser } from './mcp_identity.js';
+import { createLogger } from '../shared/logger.js';
+
+const logger = createLogger('mcp');
+
+// Scopes clients can request for what createServer registers
+export const MCP_SCOPES = [
+  ALL_TOOLS_SCOPE,
+  toolScope('greet'),
+  toolScope('multi-greet'),
+  toolScope('start-notification-stream'),
+  toolScope('whoami'),
+  PROMPTS_READ_SCOPE,
+  RESOURCES_READ_SCOPE,
+];
 
 export const createServer = () => {
   const server = new McpServer({
@@ -15,8 +31,9 @@ export const createServer = () => {
     {
       name: z.string().describe('Name to greet'),
     },
-    async ({ name }): Promise<CallToolResult> => {
-      console.log(`Greeting tool called with ${name}`);
+    async ({ name }, extra): Promise<CallToolResult> => {
+      requireScope(extra, toolScope('greet'), 'tool greet');
+      logger.info('Greeting tool called', { name });
       return {
         content: [
           {
@@ -35,9 +52,11 @@ export const createServer = () => {
     {
       name: z.string().describe('Name to greet'),
     },
-    async ({ name }, { sendNotification }): Promise<CallToolResult> => {
+    async ({ name }, extra): Promise<CallToolResult> => {
+      requireScope(extra, toolScope('multi-greet'), 'tool multi-greet');
+      const { sendNotification } = extra;
       const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-      console.log(`Multi-greet tool called with ${name}`);
+      logger.info('Multi-greet tool called', { name });
       await sendNotification({
         method: "notifications/message",
         params: { level: "debug", data: `Starting multi-greet for ${name}` }
@@ -68,6 +87,32 @@ export const createServer = () => {
     }
   );
 
+  // Register a tool that reports who is signed in
+  server.tool(
+    'whoami',
+    'Returns the signed-in user and the client and scopes of the access token',
+    {},
+    async (_args, extra): Promise<CallToolResult> => {
+      requireScope(extra, toolScope('whoami'), 'tool whoami');
+      const user = getAuthenticatedUser(extra.authInfo);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              login: user?.username ?? null,
+              id: user?.id ?? null,
+              email: user?.email ?? null,
+              name: user?.name ?? null,
+              clientId: extra.authInfo?.clientId,
+              scopes: extra.authInfo?.scopes ?? [],
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  );
+
   // Register a simple prompt
   server.prompt(
     'greeting-template',
@@ -75,7 +120,8 @@ export const createServer = () => {
     {
       name: z.string().describe('Name to include in greeting'),
     },
-    async ({ name }): Promise<GetPromptResult> => {
+    async ({ name }, extra): Promise<GetPromptResult> => {
+      requireScope(extra, PROMPTS_READ_SCOPE, 'prompt greeting-template');
       return {
         messages: [
           {
@@ -98,7 +144,9 @@ export const createServer = () => {
       interval: z.number().describe('Interval in milliseconds between notifications').default(100),
       count: z.number().describe('Number of notifications to send (0 for 100)').default(50),
     },
-    async ({ interval, count }, { sendNotification }): Promise<CallToolResult> => {
+    async ({ interval, count }, extra): Promise<CallToolResult> => {
+      requireScope(extra, toolScope('start-notification-stream'), 'tool start-notification-stream');
+      const { sendNotification } = extra;
       const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
       let counter = 0;
 
@@ -114,7 +162,7 @@ export const createServer = () => {
           });
         }
         catch (error) {
-          console.error("Error sending notification:", error);
+          logger.error('Error sending notification', { error });
         }
         // Wait for the specified interval
         await sleep(interval);
@@ -136,7 +184,8 @@ export const createServer = () => {
     'greeting-resource',
     'https://example.com/greetings/default',
     { mimeType: 'text/plain' },
-    async (): Promise<ReadResourceResult> => {
+    async (_uri, extra): Promise<ReadResourceResult> => {
+      requireScope(extra, RESOURCES_READ_SCOPE, 'resource greeting-resource');
       return {
         contents: [
           {
@@ -0,0 +1,168 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { RequestHandler } from 'express';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LOG_LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const DEFAULT_LOG_LEVEL: LogLevel = 'info';
+
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+
+// Field names whose values are never logged, compared without case, '_' or '-'
+const SECRET_FIELDS = new Set([
+  'authorization', 'cookie', 'setcookie', 'dpop', 'password', 'secret',
+  'token', 'accesstoken', 'refreshtoken', 'idtoken', 'sessiontoken', 'upstreamtoken', 'registrationaccesstoken',
+  'code', 'authorizationcode', 'codeverifier', 'state',
+  'devicecode', 'usercode', 'clientsecret', 'assertion', 'clientassertion',
+]);
+
+// Secrets that show up in free text: credentials in headers, query strings and forms, JWTs, GitHub tokens,
+// and the long hex strings this server uses for session tokens, refresh tokens, codes and state
+const SECRET_PATTERNS: [RegExp, string][] = [
+  [/\b(Bearer|DPoP|Basic)\s+[\w.~+/=-]+/gi, `$1 ${REDACTED}`],
+  [/\b(access_token|refresh_token|id_token|token|code|code_verifier|state|device_code|user_code|client_secret|registration_access_token)=[^&\s"']+/gi, `$1=${REDACTED}`],
+  [/\beyJ[\w-]*\.[\w-]+\.[\w-]*/g, REDACTED],
+  [/\b(gh[opusr]_|github_pat_)\w+/g, REDACTED],
+  [/\b[0-9a-f]{32,}\b/gi, REDACTED],
+];
+
+export interface Logger {
+  debug(message: string, fields?: Record<string, unknown>): void;
+  info(message: string, fields?: Record<string, unknown>): void;
+  warn(message: string, fields?: Record<string, unknown>): void;
+  error(message: string, fields?: Record<string, unknown>): void;
+}
+
+interface RequestContext {
+  requestId: string;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+let levelSpec: string | undefined;
+let defaultLevel: LogLevel = DEFAULT_LOG_LEVEL;
+let moduleLevels: [string, LogLevel][] = [];
+
+/**
+ * Sets log levels from a spec such as "info,auth=debug,http=warn": a default level plus levels for modules.
+ * A module's level also applies to its submodules ("auth" covers "auth.provider"). Read from LOG_LEVEL by default.
+ */
+export const setLogLevels = (spec: string | undefined): void => {
+  levelSpec = spec ?? '';
+  defaultLevel = DEFAULT_LOG_LEVEL;
+  moduleLevels = [];
+  for (const entry of levelSpec.split(',').map(e => e.trim()).filter(Boolean)) {
+    const [name, level] = entry.includes('=') ? entry.split('=', 2).map(s => s.trim()) : [undefined, entry];
+    if (!isLogLevel(level)) {
+      process.stderr.write(`Ignoring unknown log level "${level}" in LOG_LEVEL\n`);
+      continue;
+    }
+    if (name) {
+      moduleLevels.push([name, level]);
+    } else {
+      defaultLevel = level;
+    }
+  }
+  // Most specific module first
+  moduleLevels.sort(([a], [b]) => b.length - a.length);
+};
+
+const isLogLevel = (level: string): level is LogLevel => Object.hasOwn(LOG_LEVELS, level);
+
+const levelFor = (module: string): LogLevel => {
+  if (levelSpec === undefined) {
+    setLogLevels(process.env.LOG_LEVEL);
+  }
+  const match = moduleLevels.find(([name]) => module === name || module.startsWith(`${name}.`));
+  return match ? match[1] : defaultLevel;
+};
+
+/**
+ * Removes secrets from free text
+ */
+export const redactText = (text: string): string =>
+  SECRET_PATTERNS.reduce((redacted, [pattern, replacement]) => redacted.replace(pattern, replacement), text);
+
+/**
+ * Copy of a value that is safe to log: secret fields are replaced and strings are redacted
+ */
+export const redact = (value: unknown, depth = 0, seen = new WeakSet<object>()): unknown => {
+  if (typeof value === 'string') {
+    return redactText(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'bigint' ? value.toString() : value;
+  }
+  if (seen.has(value) || depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const errorCode = (value as { errorCode?: unknown }).errorCode;
+    return {
+      name: value.name,
+      message: redactText(value.message),
+      ...(typeof errorCode === 'string' ? { code: errorCode } : {}),
+      stack: value.stack ? redactText(value.stack) : undefined,
+      ...(value.cause !== undefined ? { cause: redact(value.cause, depth + 1, seen) } : {}),
+    };
+  }
+  if (value instanceof URL || value instanceof Date) {
+    return redactText(value instanceof URL ? value.href : value.toISOString());
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1, seen));
+  }
+  const entries = value instanceof Map ? [...value.entries()] : Object.entries(value);
+  return Object.fromEntries(entries.map(([key, item]) => [
+    key,
+    SECRET_FIELDS.has(String(key).toLowerCase().replace(/[_-]/g, '')) && item !== undefined && item !== null
+      ? REDACTED
+      : redact(item, depth + 1, seen),
+  ]));
+};
+
+/**
+ * Logger for a module, writing one JSON object per line to stderr with the time, level, module,
+ * the ID of the request being handled and the message. Messages and fields are redacted.
+ */
+export const createLogger = (module: string): Logger => {
+  const log = (level: LogLevel, message: string, fields?: Record<string, unknown>) => {
+    if (LOG_LEVELS[level] < LOG_LEVELS[levelFor(module)]) {
+      return;
+    }
+    const line = {
+      time: new Date().toISOString(),
+      level,
+      module,
+      request_id: requestContext.getStore()?.requestId,
+      msg: redactText(message),
+      ...(fields ? redact(fields) as Record<string, unknown> : {}),
+    };
+    process.stderr.write(`${JSON.stringify(line)}\n`);
+  };
+  return {
+    debug: (message, fields) => log('debug', message, fields),
+    info: (message, fields) => log('info', message, fields),
+    warn: (message, fields) => log('warn', message, fields),
+    error: (message, fields) => log('error', message, fields),
+  };
+};
+
+/**
+ * Runs fn with a request ID that tags every line logged while it runs, including in callbacks it starts
+ */
+export const withRequestId = <T>(requestId: string, fn: () => T): T => requestContext.run({ requestId }, fn);
+
+/**
+ * Gives each HTTP request an ID, taken from a well-formed X-Request-Id header or generated, and echoes it in the response
+ */
+export const requestIdMiddleware = (): RequestHandler => (req, res, next) => {
+  const header = req.get('x-request-id');
+  const requestId = header && /^[\w.:-]{1,128}$/.test(header) ? header : randomUUID();
+  res.setHeader('X-Request-Id', requestId);
+  withRequestId(requestId, next);
+};
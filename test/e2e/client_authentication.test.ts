@@ -0,0 +1,102 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { OAuthMetadata } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { setLogLevels } from '../../shared/logger.js';
+import { FakeGitHub } from '../helpers/FakeGitHub.js';
+import { RunningServer, startServer } from '../helpers/server.js';
+
+setLogLevels(process.env.LOG_LEVEL || 'warn');
+
+describe('client authentication', () => {
+  const github = new FakeGitHub();
+  let server: RunningServer;
+  let metadata: OAuthMetadata;
+
+  before(async () => {
+    await github.start();
+    server = await startServer(github);
+    metadata = await (await fetch(new URL('.well-known/oauth-authorization-server', server.url))).json();
+  });
+
+  after(async () => {
+    await server?.stop();
+    await github.stop();
+  });
+
+  // Registers a client directly, returning the registration response with its secret and registration access token
+  const register = async (tokenEndpointAuthMethod: string) => {
+    const response = await fetch(metadata.registration_endpoint!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: JSON.stringify({
+        client_name: `e2e ${tokenEndpointAuthMethod} client`,
+        redirect_uris: ['http://localhost:3000/callback'],
+        token_endpoint_auth_method: tokenEndpointAuthMethod,
+      }),
+    });
+    assert.equal(response.status, 201);
+    return response.json();
+  };
+
+  const updateAuthMethod = (client: Record<string, string>, tokenEndpointAuthMethod: string): Promise<Response> => {
+    const { registration_access_token, registration_client_uri, client_secret: _, ...clientMetadata } = client;
+    return fetch(registration_client_uri, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', 'Authorization': `Bearer ${registration_access_token}` },
+      body: JSON.stringify({ ...clientMetadata, token_endpoint_auth_method: tokenEndpointAuthMethod }),
+    });
+  };
+
+  it('keeps the authentication method in line with the stored secret on update', async () => {
+    const publicClient = await register('none');
+    assert.equal(publicClient.client_secret, undefined);
+    const promoted = await updateAuthMethod(publicClient, 'client_secret_basic');
+    assert.equal(promoted.status, 400);
+    assert.equal((await promoted.json()).error, 'invalid_client_metadata');
+
+    const confidentialClient = await register('client_secret_post');
+    assert.ok(confidentialClient.client_secret);
+    const demoted = await updateAuthMethod(confidentialClient, 'none');
+    assert.equal(demoted.status, 400);
+    assert.equal((await demoted.json()).error, 'invalid_client_metadata');
+
+    // Switching between secret-based methods is fine
+    const switched = await updateAuthMethod(confidentialClient, 'client_secret_basic');
+    assert.equal(switched.status, 200);
+    assert.equal((await switched.json()).token_endpoint_auth_method, 'client_secret_basic');
+  });
+
+  it('answers malformed Basic credentials with invalid_client', async () => {
+    const response = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Authorization': `Basic ${Buffer.from('%zz:secret').toString('base64')}`,
+      },
+      body: new URLSearchParams({ grant_type: 'refresh_token', refresh_token: 'unused' }),
+    });
+    assert.equal(response.status, 401);
+    assert.equal((await response.json()).error, 'invalid_client');
+  });
+
+  it('only lets confidential clients introspect tokens', async () => {
+    const introspect = (authorization: string) => fetch(metadata.introspection_endpoint as string, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Authorization': authorization },
+      body: new URLSearchParams({ token: 'unknown' }),
+    });
+    const basic = (clientId: string, clientSecret: string) =>
+      `Basic ${Buffer.from(`${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`).toString('base64')}`;
+
+    // A public client has no secret to check, whatever its metadata claims
+    const publicClient = await register('none');
+    const rejected = await introspect(basic(publicClient.client_id, 'anything'));
+    assert.equal(rejected.status, 401);
+    assert.equal((await rejected.json()).error, 'invalid_client');
+
+    const confidentialClient = await register('client_secret_basic');
+    const accepted = await introspect(basic(confidentialClient.client_id, confidentialClient.client_secret));
+    assert.equal(accepted.status, 200);
+    assert.deepEqual(await accepted.json(), { active: false });
+  });
+});
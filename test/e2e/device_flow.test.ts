@@ -0,0 +1,122 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { CallToolResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { HeadlessClientOAuthProvider } from '../../client/auth/HeadlessClientOAuthProvider.js';
+import { setLogLevels } from '../../shared/logger.js';
+import { DEFAULT_FAKE_USER, FakeGitHub } from '../helpers/FakeGitHub.js';
+import { RunningServer, startServer } from '../helpers/server.js';
+import { connectClient, registerClient, startDeviceFlow } from '../helpers/client.js';
+
+// Keep the client's own logging out of the test report
+setLogLevels(process.env.LOG_LEVEL || 'warn');
+
+describe('device flow against a fake GitHub', () => {
+  const github = new FakeGitHub();
+  let server: RunningServer;
+  let clientDir: string;
+
+  before(async () => {
+    await github.start();
+    server = await startServer(github);
+    clientDir = mkdtempSync(path.join(tmpdir(), 'mcp-oauth-e2e-client-'));
+  });
+
+  after(async () => {
+    await server?.stop();
+    await github.stop();
+    if (clientDir) {
+      rmSync(clientDir, { recursive: true, force: true });
+    }
+  });
+
+  // A freshly registered client with its own storage directory
+  const newClient = (name: string): Promise<HeadlessClientOAuthProvider> =>
+    registerClient(server.mcpUrl, path.join(clientDir, name));
+
+  it('unauthenticated MCP requests get a bearer challenge', async () => {
+    const response = await fetch(server.mcpUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json, text/event-stream' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+    });
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get('www-authenticate') ?? '', /^Bearer .*resource_metadata="/);
+  });
+
+  it('registers, authorizes, calls tools and ends the session', async () => {
+    const authProvider = await newClient('happy-path');
+    const { deviceAuth, poll } = await startDeviceFlow(authProvider);
+    // Users are sent to the fake GitHub's verification page
+    assert.ok(deviceAuth.verification_uri.startsWith(github.url.origin));
+
+    github.approve(deviceAuth.user_code);
+    const tokens = await poll();
+    assert.ok(tokens.access_token);
+    assert.ok(tokens.refresh_token);
+    // The server hands out its own tokens, never GitHub's
+    assert.doesNotMatch(tokens.access_token, /^gho_/);
+
+    const { client, transport } = await connectClient(server.mcpUrl, tokens.access_token);
+    const sessionId = transport.sessionId;
+    assert.ok(sessionId, 'initialize opens a session');
+
+    try {
+      const whoami = await client.request({ method: 'tools/call', params: { name: 'whoami', arguments: {} } }, CallToolResultSchema);
+      const identity = JSON.parse((whoami.content[0] as { text: string }).text);
+      assert.equal(identity.login, DEFAULT_FAKE_USER.login);
+      assert.equal(String(identity.id), String(DEFAULT_FAKE_USER.id));
+
+      const greet = await client.request({ method: 'tools/call', params: { name: 'greet', arguments: { name: 'e2e' } } }, CallToolResultSchema);
+      assert.equal((greet.content[0] as { text: string }).text, 'Hello, e2e!');
+
+      await transport.terminateSession();
+    } finally {
+      await client.close();
+    }
+
+    // The session is gone once deleted
+    const response = await fetch(server.mcpUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        'Authorization': `Bearer ${tokens.access_token}`,
+        'Mcp-Session-Id': sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    });
+    assert.equal(response.status, 400);
+  });
+
+  it('rejects polling once the user denies the request', async () => {
+    const authProvider = await newClient('denied');
+    const { deviceAuth, poll } = await startDeviceFlow(authProvider);
+
+    github.deny(deviceAuth.user_code);
+    await assert.rejects(poll(), /Authorization request denied/);
+  });
+
+  it('rejects polling once the device code expires', async () => {
+    const authProvider = await newClient('expired');
+    const { deviceAuth, poll } = await startDeviceFlow(authProvider);
+
+    github.expire(deviceAuth.user_code);
+    await assert.rejects(poll(), /Authorization request expired/);
+  });
+
+  it('slows down when GitHub asks to, then completes', async () => {
+    const authProvider = await newClient('slow-down');
+    const { deviceAuth, poll } = await startDeviceFlow(authProvider);
+
+    github.slowDown(deviceAuth.user_code);
+    github.approve(deviceAuth.user_code);
+    const polls = github.requestCount('/login/oauth/access_token');
+    const tokens = await poll();
+    assert.ok(tokens.access_token);
+    // One poll answered with slow_down, the next one with the token
+    assert.equal(github.requestCount('/login/oauth/access_token') - polls, 2);
+  });
+});
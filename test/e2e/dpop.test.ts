@@ -0,0 +1,102 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { HeadlessClientOAuthProvider } from '../../client/auth/HeadlessClientOAuthProvider.js';
+import { setLogLevels } from '../../shared/logger.js';
+import { FakeGitHub } from '../helpers/FakeGitHub.js';
+import { RunningServer, startServer } from '../helpers/server.js';
+import { registerClient, startDeviceFlow } from '../helpers/client.js';
+
+setLogLevels(process.env.LOG_LEVEL || 'warn');
+
+describe('DPoP-bound tokens', () => {
+  const github = new FakeGitHub();
+  let server: RunningServer;
+  let clientDir: string;
+  let authProvider: HeadlessClientOAuthProvider;
+  let accessToken: string;
+
+  before(async () => {
+    await github.start();
+    server = await startServer(github);
+    clientDir = mkdtempSync(path.join(tmpdir(), 'mcp-oauth-e2e-client-'));
+
+    authProvider = await registerClient(server.mcpUrl, path.join(clientDir, 'dpop'), true);
+    const { deviceAuth, poll } = await startDeviceFlow(authProvider);
+    github.approve(deviceAuth.user_code);
+    const tokens = await poll();
+    assert.equal(tokens.token_type, 'DPoP');
+    accessToken = tokens.access_token;
+  });
+
+  after(async () => {
+    await server?.stop();
+    await github.stop();
+    if (clientDir) {
+      rmSync(clientDir, { recursive: true, force: true });
+    }
+  });
+
+  // A ping outside any session: past authentication it gets 400 for the missing session, before it 401
+  const ping = (authorization: string, proof?: string): Promise<Response> => fetch(server.mcpUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+      'Authorization': authorization,
+      ...(proof ? { 'DPoP': proof } : {}),
+    },
+    body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+  });
+
+  it('rejects a bound token sent as a Bearer token', async () => {
+    const response = await ping(`Bearer ${accessToken}`);
+    assert.equal(response.status, 401);
+  });
+
+  it('accepts a proof once and rejects its replay', async () => {
+    const proof = await authProvider.dpopProof('POST', server.mcpUrl, accessToken);
+    const first = await ping(`DPoP ${accessToken}`, proof);
+    assert.notEqual(first.status, 401);
+
+    const replayed = await ping(`DPoP ${accessToken}`, proof);
+    assert.equal(replayed.status, 401);
+    assert.match(replayed.headers.get('www-authenticate') ?? '', /error="invalid_dpop_proof"/);
+  });
+
+  it('asks for the nonce when a proof has none', async () => {
+    // A fresh provider with the same key has not seen the server's nonce yet
+    const withoutNonce = new HeadlessClientOAuthProvider(server.mcpUrl.href, path.join(clientDir, 'dpop'), undefined, true);
+    const response = await ping(`DPoP ${accessToken}`, await withoutNonce.dpopProof('POST', server.mcpUrl, accessToken));
+    assert.equal(response.status, 401);
+    assert.match(response.headers.get('www-authenticate') ?? '', /error="use_dpop_nonce"/);
+    assert.ok(response.headers.get('dpop-nonce'));
+  });
+
+  it('does not spend the proof of a malformed token request', async () => {
+    const clientInfo = await authProvider.clientInformation();
+    const tokens = await authProvider.tokens();
+    const { token_endpoint } = await authProvider.authorizationServerMetadata();
+    const refresh = (proof: string, params: Record<string, string>) => fetch(token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json', 'DPoP': proof },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        client_id: clientInfo!.client_id,
+        client_secret: clientInfo!.client_secret!,
+        ...params,
+      }),
+    });
+
+    const proof = await authProvider.dpopProof('POST', new URL(token_endpoint));
+    const malformed = await refresh(proof, {});
+    assert.equal(malformed.status, 400);
+    assert.equal((await malformed.json()).error, 'invalid_request');
+
+    const refreshed = await refresh(proof, { refresh_token: tokens!.refresh_token! });
+    assert.equal(refreshed.status, 200);
+    assert.equal((await refreshed.json()).token_type, 'DPoP');
+  });
+});
@@ -0,0 +1,65 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { setLogLevels } from '../../shared/logger.js';
+import { FakeGitHub } from '../helpers/FakeGitHub.js';
+import { RunningServer, startServer } from '../helpers/server.js';
+import { registerClient, startDeviceFlow } from '../helpers/client.js';
+
+setLogLevels(process.env.LOG_LEVEL || 'warn');
+
+describe('refresh token rotation', () => {
+  // Expiring GitHub tokens, so every MCP refresh would also refresh upstream
+  const github = new FakeGitHub({ tokenExpiresIn: 30 });
+  let server: RunningServer;
+  let clientDir: string;
+
+  before(async () => {
+    await github.start();
+    server = await startServer(github);
+    clientDir = mkdtempSync(path.join(tmpdir(), 'mcp-oauth-e2e-client-'));
+  });
+
+  after(async () => {
+    await server?.stop();
+    await github.stop();
+    if (clientDir) {
+      rmSync(clientDir, { recursive: true, force: true });
+    }
+  });
+
+  it('revokes the token family when a rotated refresh token is replayed, without calling GitHub', async () => {
+    const authProvider = await registerClient(server.mcpUrl, path.join(clientDir, 'replayed'));
+    const { deviceAuth, poll } = await startDeviceFlow(authProvider);
+    github.approve(deviceAuth.user_code);
+    const original = await poll();
+    assert.ok(original.refresh_token);
+
+    const rotated = await authProvider.refreshTokens();
+    assert.ok(rotated.refresh_token);
+    assert.notEqual(rotated.refresh_token, original.refresh_token);
+
+    // Replay the refresh token that was just rotated
+    const clientInfo = await authProvider.clientInformation();
+    const { token_endpoint } = await authProvider.authorizationServerMetadata();
+    const refreshes = github.refreshCount;
+    const replay = await fetch(token_endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'Accept': 'application/json' },
+      body: new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: original.refresh_token,
+        client_id: clientInfo!.client_id,
+        client_secret: clientInfo!.client_secret!,
+      }),
+    });
+    assert.equal(replay.status, 400);
+    assert.equal((await replay.json()).error, 'invalid_grant');
+    assert.equal(github.refreshCount, refreshes, 'the replay never reached GitHub');
+
+    // The whole family is revoked, including the refresh token issued by the rotation
+    await assert.rejects(authProvider.refreshTokens(), /Token refresh failed/);
+  });
+});
@@ -0,0 +1,113 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { CallToolResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { AuditLog, AuditRecord } from '../../server/auth/AuditLog.js';
+import { setLogLevels } from '../../shared/logger.js';
+import { DEFAULT_FAKE_USER, FakeGitHub, FakeGitHubUser } from '../helpers/FakeGitHub.js';
+import { RunningServer, startServer } from '../helpers/server.js';
+import { connectClient, registerClient, startDeviceFlow } from '../helpers/client.js';
+
+setLogLevels(process.env.LOG_LEVEL || 'warn');
+
+describe('expiring GitHub user tokens', () => {
+  // Shorter than the margin the server refreshes within, so every use of the upstream token refreshes it
+  const github = new FakeGitHub({ tokenExpiresIn: 30 });
+  let server: RunningServer;
+  let clientDir: string;
+
+  before(async () => {
+    await github.start();
+    server = await startServer(github);
+    clientDir = mkdtempSync(path.join(tmpdir(), 'mcp-oauth-e2e-client-'));
+  });
+
+  after(async () => {
+    await server?.stop();
+    await github.stop();
+    if (clientDir) {
+      rmSync(clientDir, { recursive: true, force: true });
+    }
+  });
+
+  const signIn = async (name: string, user?: FakeGitHubUser) => {
+    const authProvider = await registerClient(server.mcpUrl, path.join(clientDir, name));
+    const { deviceAuth, poll } = await startDeviceFlow(authProvider);
+    github.approve(deviceAuth.user_code, user);
+    return { authProvider, tokens: await poll() };
+  };
+
+  const whoami = async (client: Awaited<ReturnType<typeof connectClient>>['client']) => {
+    const result = await client.request({ method: 'tools/call', params: { name: 'whoami', arguments: {} } }, CallToolResultSchema);
+    return JSON.parse((result.content[0] as { text: string }).text);
+  };
+
+  // The audit log is written asynchronously, so records can lag behind the response
+  const auditRecords = async (event: string, outcome: AuditRecord['outcome']): Promise<AuditRecord[]> => {
+    const auditLog = new AuditLog(path.join(server.dataDir, 'audit.jsonl'));
+    for (let attempt = 0; ; attempt++) {
+      const records = await auditLog.query({ event, outcome });
+      if (records.length > 0 || attempt === 20) {
+        return records;
+      }
+      await new Promise(resolve => setTimeout(resolve, 50));
+    }
+  };
+
+  it('refreshes the upstream token while the MCP session is in use', async () => {
+    const { tokens } = await signIn('refreshed');
+    const refreshes = github.refreshCount;
+
+    // Connecting sends several requests at once, which must share one refresh of the single-use refresh token
+    const { client } = await connectClient(server.mcpUrl, tokens.access_token);
+    try {
+      assert.equal((await whoami(client)).login, DEFAULT_FAKE_USER.login);
+      assert.equal((await whoami(client)).login, DEFAULT_FAKE_USER.login);
+    } finally {
+      await client.close();
+    }
+
+    assert.ok(github.refreshCount > refreshes, 'the server refreshed the GitHub token');
+    assert.ok((await auditRecords('upstream.refreshed', 'success')).length > 0);
+  });
+
+  it('ends the MCP session once GitHub refuses the refresh', async () => {
+    const user = { id: 2002, login: 'revoker' };
+    const { authProvider, tokens } = await signIn('refused', user);
+
+    const { client, transport } = await connectClient(server.mcpUrl, tokens.access_token);
+    const sessionId = transport.sessionId;
+    assert.ok(sessionId);
+    try {
+      assert.equal((await whoami(client)).login, user.login);
+
+      // The user revokes the app on GitHub, so the next refresh is refused
+      github.revokeAuthorization(user.login);
+      await assert.rejects(whoami(client), /HTTP 401/);
+    } finally {
+      await client.close();
+    }
+
+    // The whole token family is gone, so the MCP refresh token no longer works either
+    await assert.rejects(authProvider.refreshTokens());
+    const refused = await auditRecords('upstream.refreshed', 'failure');
+    assert.equal(refused.length, 1);
+    assert.equal(refused[0].actor?.username, user.login);
+
+    // The server closed the session, so it is unknown even to a request with a valid token
+    const { tokens: renewed } = await signIn('renewed', user);
+    const response = await fetch(server.mcpUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+        'Authorization': `Bearer ${renewed.access_token}`,
+        'Mcp-Session-Id': sessionId,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+    });
+    assert.equal(response.status, 400);
+  });
+});
@@ -0,0 +1,308 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { randomBytes } from 'node:crypto';
+
+export interface FakeGitHubUser {
+  id: number;
+  login: string;
+  name?: string;
+  email?: string;
+}
+
+export const DEFAULT_FAKE_USER: FakeGitHubUser = { id: 1001, login: 'octocat', name: 'The Octocat', email: 'octocat@example.com' };
+
+type DeviceCodeState = 'pending' | 'approved' | 'denied' | 'expired';
+
+interface FakeDeviceCode {
+  deviceCode: string;
+  userCode: string;
+  scope: string;
+  state: DeviceCodeState;
+  user?: FakeGitHubUser;
+  // slow_down answers still to give before the scripted state applies
+  slowDowns: number;
+  expiresAt: number;
+}
+
+export interface FakeGitHubOptions {
+  // Polling interval handed out with device codes, in seconds
+  interval?: number;
+  // Lifetime of device codes, in seconds
+  expiresIn?: number;
+  // Issue user tokens that expire after this many seconds, with a refresh token, as GitHub Apps do;
+  // tokens do not expire by default, as with OAuth apps
+  tokenExpiresIn?: number;
+}
+
+/**
+ * In-process stand-in for the parts of GitHub the server uses: the device flow (login/device/code and
+ * login/oauth/access_token), the user API under /api/v3 (the GitHub Enterprise Server layout) and token revocation.
+ * Device codes stay pending until a test approves, denies or expires them, and slow_down answers can be scripted.
+ * With expiring tokens, refresh tokens are single use, and the user can revoke the app to make them fail.
+ */
+export class FakeGitHub {
+  readonly clientId = 'fake-github-client-id';
+  readonly clientSecret = 'fake-github-client-secret';
+  // Requests received, as "METHOD /path"
+  readonly requests: string[] = [];
+  // Access tokens revoked through the applications API
+  readonly revokedTokens: string[] = [];
+
+  private _server: Server;
+  private _interval: number;
+  private _expiresIn: number;
+  private _tokenExpiresIn?: number;
+  private _refreshCount = 0;
+  private _deviceCodes = new Map<string, FakeDeviceCode>();
+  private _tokens = new Map<string, FakeGitHubUser>();
+  private _refreshTokens = new Map<string, FakeGitHubUser>();
+
+  constructor(options: FakeGitHubOptions = {}) {
+    this._interval = options.interval ?? 1;
+    this._expiresIn = options.expiresIn ?? 900;
+    this._tokenExpiresIn = options.tokenExpiresIn;
+    this._server = createServer((req, res) => {
+      this._handle(req, res).catch(error => {
+        res.statusCode = 500;
+        res.end(JSON.stringify({ message: String(error) }));
+      });
+    });
+  }
+
+  /**
+   * Base URL, to be used as GITHUB_URL
+   */
+  get url(): URL {
+    const { port } = this._server.address() as AddressInfo;
+    return new URL(`http://127.0.0.1:${port}/`);
+  }
+
+  async start(): Promise<URL> {
+    await new Promise<void>(resolve => this._server.listen(0, '127.0.0.1', resolve));
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    this._server.closeAllConnections();
+    await new Promise<void>(resolve => this._server.close(() => resolve()));
+  }
+
+  /**
+   * The user signs in and authorizes the app; the next poll gets an access token for them
+   */
+  approve(userCode: string, user: FakeGitHubUser = DEFAULT_FAKE_USER): void {
+    const code = this._findByUserCode(userCode);
+    code.state = 'approved';
+    code.user = user;
+  }
+
+  /**
+   * The user declines; the next poll gets access_denied
+   */
+  deny(userCode: string): void {
+    this._findByUserCode(userCode).state = 'denied';
+  }
+
+  /**
+   * The device code runs out; the next poll gets expired_token
+   */
+  expire(userCode: string): void {
+    this._findByUserCode(userCode).state = 'expired';
+  }
+
+  /**
+   * The next polls get slow_down, whatever else has been scripted
+   */
+  slowDown(userCode: string, times = 1): void {
+    this._findByUserCode(userCode).slowDowns += times;
+  }
+
+  /**
+   * The user revokes the app in their GitHub settings: their access and refresh tokens stop working
+   */
+  revokeAuthorization(login: string): void {
+    for (const tokens of [this._tokens, this._refreshTokens]) {
+      for (const [token, user] of tokens.entries()) {
+        if (user.login === login) {
+          tokens.delete(token);
+        }
+      }
+    }
+  }
+
+  /**
+   * Number of refresh tokens exchanged successfully
+   */
+  get refreshCount(): number {
+    return this._refreshCount;
+  }
+
+  /**
+   * Number of requests received for a path, e.g. polls of login/oauth/access_token
+   */
+  requestCount(path: string): number {
+    return this.requests.filter(request => request.endsWith(` ${path}`)).length;
+  }
+
+  private _findByUserCode(userCode: string): FakeDeviceCode {
+    const code = [...this._deviceCodes.values()].find(code => code.userCode === userCode);
+    if (!code) {
+      throw new Error(`Fake GitHub issued no user code ${userCode}`);
+    }
+    return code;
+  }
+
+  private async _handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', this.url);
+    this.requests.push(`${req.method} ${url.pathname}`);
+    const body = await readBody(req);
+
+    if (req.method === 'POST' && url.pathname === '/login/device/code') {
+      return this._deviceCode(body, res);
+    }
+    if (req.method === 'POST' && url.pathname === '/login/oauth/access_token') {
+      return this._accessToken(body, res);
+    }
+    if (req.method === 'GET' && url.pathname === '/api/v3/user') {
+      const user = this._authenticatedUser(req);
+      return user
+        ? json(res, 200, { id: user.id, login: user.login, name: user.name ?? null, email: user.email ?? null })
+        : json(res, 401, { message: 'Bad credentials' });
+    }
+    if (req.method === 'GET' && url.pathname === '/api/v3/user/emails') {
+      const user = this._authenticatedUser(req);
+      return user
+        ? json(res, 200, user.email ? [{ email: user.email, primary: true, verified: true }] : [])
+        : json(res, 401, { message: 'Bad credentials' });
+    }
+    if (req.method === 'DELETE' && url.pathname === `/api/v3/applications/${this.clientId}/token`) {
+      const credentials = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
+      if (req.headers.authorization !== `Basic ${credentials}`) {
+        return json(res, 401, { message: 'Bad credentials' });
+      }
+      const token = String(body.access_token);
+      if (!this._tokens.delete(token)) {
+        return json(res, 404, { message: 'Not Found' });
+      }
+      this.revokedTokens.push(token);
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+    json(res, 404, { message: 'Not Found' });
+  }
+
+  private _deviceCode(body: Record<string, unknown>, res: ServerResponse): void {
+    if (body.client_id !== this.clientId) {
+      return json(res, 401, { error: 'Not Found' });
+    }
+    const deviceCode = randomBytes(20).toString('hex');
+    const userCode = `${randomBytes(2).toString('hex')}-${randomBytes(2).toString('hex')}`.toUpperCase();
+    this._deviceCodes.set(deviceCode, {
+      deviceCode,
+      userCode,
+      scope: String(body.scope ?? ''),
+      state: 'pending',
+      slowDowns: 0,
+      expiresAt: Date.now() + this._expiresIn * 1000,
+    });
+    json(res, 200, {
+      device_code: deviceCode,
+      user_code: userCode,
+      verification_uri: new URL('login/device', this.url).href,
+      expires_in: this._expiresIn,
+      interval: this._interval,
+    });
+  }
+
+  // Like GitHub, errors are answered with 200 and an error field
+  private _accessToken(body: Record<string, unknown>, res: ServerResponse): void {
+    if (body.client_id !== this.clientId || body.client_secret !== this.clientSecret) {
+      return json(res, 200, { error: 'incorrect_client_credentials', error_description: 'The client_id and/or client_secret passed are incorrect.' });
+    }
+    if (body.grant_type === 'refresh_token') {
+      return this._refreshToken(body, res);
+    }
+    if (body.grant_type !== 'urn:ietf:params:oauth:grant-type:device_code') {
+      return json(res, 200, { error: 'unsupported_grant_type' });
+    }
+    const code = this._deviceCodes.get(String(body.device_code));
+    if (!code) {
+      return json(res, 200, { error: 'incorrect_device_code', error_description: 'The device_code provided is not valid.' });
+    }
+    if (code.slowDowns > 0) {
+      code.slowDowns--;
+      return json(res, 200, { error: 'slow_down', interval: this._interval + 5 });
+    }
+    if (code.state === 'expired' || code.expiresAt < Date.now()) {
+      return json(res, 200, { error: 'expired_token', error_description: 'The device_code has expired.' });
+    }
+    if (code.state === 'denied') {
+      return json(res, 200, { error: 'access_denied', error_description: 'The authorization request was denied.' });
+    }
+    if (code.state === 'pending') {
+      return json(res, 200, { error: 'authorization_pending', error_description: 'The authorization request is still pending.' });
+    }
+
+    // A device code is exchanged once
+    this._deviceCodes.delete(code.deviceCode);
+    json(res, 200, this._issueTokens(code.user!, code.scope));
+  }
+
+  private _refreshToken(body: Record<string, unknown>, res: ServerResponse): void {
+    const refreshToken = String(body.refresh_token);
+    const user = this._refreshTokens.get(refreshToken);
+    if (!user) {
+      return json(res, 200, { error: 'bad_refresh_token', error_description: 'The refresh token passed is incorrect or expired.' });
+    }
+    // Refresh tokens are single use
+    this._refreshTokens.delete(refreshToken);
+    this._refreshCount++;
+    json(res, 200, this._issueTokens(user, ''));
+  }
+
+  private _issueTokens(user: FakeGitHubUser, scope: string): Record<string, unknown> {
+    const prefix = this._tokenExpiresIn === undefined ? 'gho' : 'ghu';
+    const accessToken = `${prefix}_${randomBytes(18).toString('hex')}`;
+    this._tokens.set(accessToken, user);
+    if (this._tokenExpiresIn === undefined) {
+      return { access_token: accessToken, token_type: 'bearer', scope };
+    }
+
+    const refreshToken = `ghr_${randomBytes(36).toString('hex')}`;
+    this._refreshTokens.set(refreshToken, user);
+    return {
+      access_token: accessToken,
+      expires_in: this._tokenExpiresIn,
+      refresh_token: refreshToken,
+      refresh_token_expires_in: 15897600,
+      token_type: 'bearer',
+      scope,
+    };
+  }
+
+  private _authenticatedUser(req: IncomingMessage): FakeGitHubUser | undefined {
+    const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+    return scheme?.toLowerCase() === 'bearer' && token ? this._tokens.get(token) : undefined;
+  }
+}
+
+async function readBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) {
+    return {};
+  }
+  return req.headers['content-type']?.includes('application/json')
+    ? JSON.parse(text)
+    : Object.fromEntries(new URLSearchParams(text));
+}
+
+function json(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { OAuthTokens } from '@modelcontextprotocol/sdk/shared/auth.js';
+import { HeadlessClientOAuthProvider } from '../../client/auth/HeadlessClientOAuthProvider.js';
+
+/**
+ * A headless client freshly registered with the server, keeping its files in storageDir, optionally using DPoP
+ */
+export const registerClient = async (mcpUrl: URL, storageDir: string, useDPoP = false): Promise<HeadlessClientOAuthProvider> => {
+  const authProvider = new HeadlessClientOAuthProvider(mcpUrl.href, storageDir, undefined, useDPoP);
+  const { registration_endpoint } = await authProvider.authorizationServerMetadata();
+  assert.ok(registration_endpoint, 'server advertises dynamic client registration');
+
+  const response = await fetch(registration_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+    body: JSON.stringify(authProvider.clientMetadata),
+  });
+  assert.equal(response.status, 201);
+  const clientInfo = await response.json();
+  assert.ok(clientInfo.client_id);
+  await authProvider.saveClientInformation(clientInfo);
+  return authProvider;
+};
+
+/**
+ * Starts the device flow; the test acts on the user code upstream, then polls
+ */
+export const startDeviceFlow = async (authProvider: HeadlessClientOAuthProvider) => {
+  const deviceAuth = await authProvider.authorizeHeadless();
+  assert.ok(deviceAuth.device_code);
+  assert.ok(deviceAuth.user_code);
+  const poll = (): Promise<OAuthTokens> =>
+    authProvider.pollForAuthorization({ deviceCode: deviceAuth.device_code, interval: deviceAuth.interval, timeout: 60 });
+  return { deviceAuth, poll };
+};
+
+/**
+ * An MCP client with an open session, authorized by the access token
+ */
+export const connectClient = async (mcpUrl: URL, accessToken: string) => {
+  const client = new Client({ name: 'e2e-test-client', version: '1.0.0' });
+  const transport = new StreamableHTTPClientTransport(mcpUrl, {
+    requestInit: { headers: { Authorization: `Bearer ${accessToken}` } },
+  });
+  await client.connect(transport);
+  return { client, transport };
+};
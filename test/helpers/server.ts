@@ -0,0 +1,117 @@
+import { ChildProcess, spawn } from 'node:child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { createServer } from 'node:net';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { FakeGitHub } from './FakeGitHub.js';
+
+const repoRoot = path.resolve(path.dirname(new URL(import.meta.url).pathname), '../..');
+const STARTUP_TIMEOUT_MS = 30_000;
+
+export interface RunningServer {
+  url: URL;
+  // The MCP endpoint, also the resource tokens are issued for
+  mcpUrl: URL;
+  // Scratch directory holding the server's databases, keys and audit log
+  dataDir: string;
+  // Everything the server wrote to stdout and stderr
+  output(): string;
+  stop(): Promise<void>;
+}
+
+/**
+ * Starts server/index_streamable.ts in a child process, signing users in with the fake GitHub.
+ * State goes to a scratch directory that is removed on stop; env adds to or overrides the settings.
+ */
+export const startServer = async (github: FakeGitHub, env: Record<string, string> = {}): Promise<RunningServer> => {
+  const dataDir = mkdtempSync(path.join(tmpdir(), 'mcp-oauth-e2e-'));
+  const configFile = path.join(dataDir, 'config.json');
+  writeFileSync(configFile, '{}');
+  const port = await freePort();
+
+  const child = spawn(process.execPath, ['--import', 'tsx', 'server/index_streamable.ts'], {
+    cwd: repoRoot,
+    env: {
+      ...process.env,
+      CONFIG_FILE: configFile,
+      PORT: String(port),
+      ISSUER_URL: `http://127.0.0.1:${port}`,
+      UPSTREAM_IDP: 'github',
+      GITHUB_URL: github.url.href,
+      GITHUB_CLIENT_ID: github.clientId,
+      GITHUB_CLIENT_SECRET: github.clientSecret,
+      // Set, even if empty, so a developer's .env cannot restrict who signs in
+      GITHUB_ALLOWED_USERS: '',
+      GITHUB_ALLOWED_ORGS: '',
+      GITHUB_ALLOWED_TEAMS: '',
+      ACCESS_TOKEN_FORMAT: 'opaque',
+      TOKEN_STORE: 'memory',
+      CLIENTS_DB_PATH: path.join(dataDir, 'clients.db'),
+      JWT_KEYS_PATH: path.join(dataDir, 'jwt-keys.json'),
+      AUDIT_LOG_PATH: path.join(dataDir, 'audit.jsonl'),
+      LOG_LEVEL: process.env.SERVER_LOG_LEVEL || 'error',
+      ...env,
+    },
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  let output = '';
+  child.stdout!.on('data', chunk => { output += chunk; });
+  child.stderr!.on('data', chunk => { output += chunk; });
+
+  const url = new URL(`http://127.0.0.1:${port}/`);
+  const stop = async () => {
+    await stopChild(child);
+    rmSync(dataDir, { recursive: true, force: true });
+  };
+
+  try {
+    await waitUntilReady(child, new URL('.well-known/oauth-authorization-server', url));
+  } catch (error) {
+    await stop();
+    throw new Error(`Server did not start: ${error instanceof Error ? error.message : error}\n${output}`);
+  }
+
+  return { url, mcpUrl: new URL('mcp', url), dataDir, output: () => output, stop };
+};
+
+const freePort = (): Promise<number> => new Promise((resolve, reject) => {
+  const probe = createServer();
+  probe.once('error', reject);
+  probe.listen(0, '127.0.0.1', () => {
+    const { port } = probe.address() as { port: number };
+    probe.close(() => resolve(port));
+  });
+});
+
+const waitUntilReady = async (child: ChildProcess, metadataUrl: URL): Promise<void> => {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (child.exitCode !== null) {
+      throw new Error(`exited with code ${child.exitCode}`);
+    }
+    try {
+      const response = await fetch(metadataUrl);
+      if (response.ok) {
+        return;
+      }
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+  throw new Error(`no answer from ${metadataUrl} within ${STARTUP_TIMEOUT_MS / 1000}s`);
+};
+
+const stopChild = (child: ChildProcess): Promise<void> => new Promise(resolve => {
+  if (child.exitCode !== null || child.signalCode !== null) {
+    resolve();
+    return;
+  }
+  const timer = setTimeout(() => child.kill('SIGKILL'), 5000);
+  child.once('exit', () => {
+    clearTimeout(timer);
+    resolve();
+  });
+  child.kill('SIGTERM');
+});